@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { getGame } from "@/lib/game-store";
+
+export const dynamic = "force-dynamic";
+
+// One stored game with its full MatchResult, or just its PGN with `?format=pgn`.
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const game = await getGame(params.id);
+  if (!game) {
+    return new Response("Game not found", { status: 404 });
+  }
+  if (req.nextUrl.searchParams.get("format") === "pgn") {
+    return new Response(game.result.pgn, {
+      headers: {
+        "Content-Type": "application/x-chess-pgn",
+        "Content-Disposition": `inline; filename="${game.id}.pgn"`
+      }
+    });
+  }
+  return new Response(JSON.stringify(game), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { listGames, parseGameQuery } from "@/lib/game-store";
+
+export const dynamic = "force-dynamic";
+
+// Stored games, newest first. Filters: model (either side), mode, reason, from/to dates, limit.
+export async function GET(req: NextRequest) {
+  let query;
+  try {
+    query = parseGameQuery(req.nextUrl.searchParams);
+  } catch (err) {
+    return new Response(err instanceof Error ? err.message : "Invalid filters", { status: 400 });
+  }
+  const games = await listGames(query);
+  return new Response(JSON.stringify({ games }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { readGames } from "@/lib/game-store";
+import { buildLeaderboards, isRatingPool, validateRatingSystem } from "@/lib/ratings";
+import { RatingSystem } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+// Ratings recomputed from every stored game, so they are the same on every browser and machine.
+// `system` picks glicko2 (default) or elo; `pool` (e.g. strict:blitz) narrows the answer to one pool.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const system = (params.get("system") ?? undefined) as RatingSystem | undefined;
+  const pool = params.get("pool");
+  try {
+    validateRatingSystem(system);
+    if (pool !== null && !isRatingPool(pool)) throw new Error(`Unknown rating pool: ${pool}`);
+  } catch (err) {
+    return new Response(err instanceof Error ? err.message : "Invalid leaderboard query", { status: 400 });
+  }
+  const all = buildLeaderboards(await readGames(), system);
+  const leaderboards = pool ? { [pool]: all[pool] ?? [] } : all;
+  return new Response(JSON.stringify({ leaderboards }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
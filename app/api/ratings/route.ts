@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { readGames, recomputeRatings } from "@/lib/game-store";
+import { DEFAULT_RATING_SYSTEM, isRatingPool, ratingHistory, snapshotSystem, validateRatingSystem } from "@/lib/ratings";
+import { RatingSystem } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+// One model's rating after each of its rated games in a pool, from the snapshots stored with the games.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const model = params.get("model");
+  const pool = params.get("pool") ?? "";
+  if (!model) {
+    return new Response("Provide a model", { status: 400 });
+  }
+  if (!isRatingPool(pool)) {
+    return new Response(`Unknown rating pool: ${pool}`, { status: 400 });
+  }
+  const games = await readGames();
+  const payload = { system: snapshotSystem(games), points: ratingHistory(games, model, pool) };
+  return new Response(JSON.stringify(payload), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// Replays the whole store under `system` (default glicko2) and rewrites every game's snapshot.
+export async function POST(req: NextRequest) {
+  let body: { system?: RatingSystem };
+  try {
+    body = await req.json();
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+  try {
+    validateRatingSystem(body.system);
+  } catch (err) {
+    return new Response(err instanceof Error ? err.message : "Invalid rating system", { status: 400 });
+  }
+  const summary = await recomputeRatings(body.system ?? DEFAULT_RATING_SYSTEM);
+  return new Response(JSON.stringify(summary), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
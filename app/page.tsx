@@ -4,22 +4,54 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import clsx from "clsx";
 import dynamic from "next/dynamic";
 import { Chess } from "chess.js";
-import { modelOptions } from "@/lib/models";
+import { modelOptions, needsGateway } from "@/lib/models";
+import { parseScriptedMoves, SCRIPT_EMPTY_TOKEN } from "@/lib/local-players";
+import { loadStartPosition, parseStartInput } from "@/lib/chess-utils";
+import { DEFAULT_TOOL_CALL_BUDGET } from "@/lib/analysis-tools";
+import { MOVE_EXTRACTIONS } from "@/lib/move-extraction";
+import { formatBudgetLeft, hasBudget } from "@/lib/budget";
+import { CALL_FAILURE_LABELS, isNoContest } from "@/lib/results";
+import { BudgetInputs } from "@/components/budget-inputs";
+import { ADJUDICATION_HINT, DEFAULT_ADJUDICATION } from "@/lib/adjudication";
+import { ASSISTANCE_HINTS, DEFAULT_BOARD_REPRESENTATIONS, DEFAULT_CONVERSATION_WINDOW } from "@/lib/prompt";
+import { chess960PositionFromSeed, chess960StartFen, randomChess960Seed } from "@/lib/chess960";
+import { formatTimeControl, resolveClockText, TIME_CONTROL_PRESETS } from "@/lib/time-control";
 import { useLocalStorage } from "@/lib/use-local-storage";
+import { useLeaderboard } from "@/lib/use-leaderboard";
 import {
+  DEFAULT_RATING_SYSTEM,
+  formatRating,
+  initialRating,
+  RATING_SYSTEM_LABELS,
+  ratingPool
+} from "@/lib/ratings";
+import {
+  AssistancePolicy,
+  BoardRepresentation,
+  Budget,
   MatchClocks,
   MatchHistoryEntry,
   MatchMode,
   MatchMoveEvent,
   MatchResult,
   MatchStatusEvent,
-  MatchStreamEvent
+  MatchStreamEvent,
+  MatchToolEvent,
+  MatchVariant,
+  MoveExtraction,
+  MoveSubmission,
+  PlayerRating,
+  PromptStyle,
+  RatingPool,
+  RatingSystem
 } from "@/lib/types";
 import { ModelPicker } from "@/components/model-picker";
 import { MoveLog } from "@/components/move-log";
 import { HistoryPanel } from "@/components/history-panel";
+import { Leaderboard } from "@/components/leaderboard";
+import { BoardRepresentationPicker } from "@/components/board-representation-picker";
 import { StatusBar } from "@/components/status-bar";
-import { estimateCost, estimateTokens } from "@/lib/costs";
+import { actualCost, addUsage, EMPTY_USAGE, estimateCost, estimateTokens } from "@/lib/costs";
 import { EvalBar } from "@/components/eval-bar";
 import { Footer } from "@/components/footer";
 
@@ -29,9 +61,19 @@ const Chessboard = dynamic(() => import("react-chessboard").then((mod) => mod.Ch
 
 const HISTORY_LIMIT = 25;
 
+interface StartSetup {
+  startFen?: string;
+  startPgn?: string;
+  chess960Seed?: number;
+  chess960Position?: number;
+  fen: string | null; // board to preview, or null when the setup is invalid
+  error: string | null;
+}
+
 function getWinnerLabel(result: MatchResult, whiteLabel: string, blackLabel: string) {
   if (result.winner === "white") return whiteLabel;
   if (result.winner === "black") return blackLabel;
+  if (isNoContest(result)) return "No contest";
   return "Draw";
 }
 
@@ -65,6 +107,25 @@ function getReasonLabel(result: MatchResult, whiteLabel: string, blackLabel: str
       return "Insufficient material";
     case "max-move":
       return "Move cap reached";
+    case "format":
+      return loserLabel ? `${loserLabel} sent 3 unreadable replies` : "Unreadable replies";
+    case "budget":
+      return "Budget cap reached";
+    case "agreement":
+      return "Draw agreed";
+    case "error": {
+      if (!result.failure) return "Model call failed";
+      const failedLabel = result.failure.by === "white" ? whiteLabel : blackLabel;
+      return `${failedLabel}: ${CALL_FAILURE_LABELS[result.failure.kind]}`;
+    }
+    case "aborted":
+      return "Aborted";
+    case "resign-adjudication":
+      return loserLabel ? `${loserLabel} lost by adjudication` : "Adjudicated";
+    case "draw-adjudication":
+      return "Adjudicated draw";
+    case "endgame-adjudication":
+      return "Known endgame adjudicated";
     default:
       return result.reason;
   }
@@ -124,15 +185,33 @@ export default function Home() {
   );
   const history = useMemo(() => migrateHistory(historyRaw), [historyRaw]);
   const [apiKey, setApiKey] = useLocalStorage<string>("arena-api-key", "");
+  const [scriptText, setScriptText] = useState<{ white: string; black: string }>({ white: "", black: "" });
+  const [startPosition, setStartPosition] = useState("");
+  const [variant, setVariant] = useState<MatchVariant>("standard");
+  const [chess960SeedText, setChess960SeedText] = useState("");
+  const [explain, setExplain] = useState(false);
+  const [analysisTools, setAnalysisTools] = useState(false);
+  const [toolCallBudget, setToolCallBudget] = useState(DEFAULT_TOOL_CALL_BUDGET);
+  const [moveExtraction, setMoveExtraction] = useState<MoveExtraction>("strict");
+  const [budget, setBudget] = useState<Budget>({});
+  const [adjudicate, setAdjudicate] = useState(false);
+  const [promptStyle, setPromptStyle] = useState<PromptStyle>("one-shot");
+  const [conversationWindow, setConversationWindow] = useState(DEFAULT_CONVERSATION_WINDOW);
+  const [boardRepresentations, setBoardRepresentations] = useState<BoardRepresentation[]>(DEFAULT_BOARD_REPRESENTATIONS);
+  const [assistance, setAssistance] = useState<AssistancePolicy>("off");
+  const [submission, setSubmission] = useState<MoveSubmission>("text");
+  const [thoughts, setThoughts] = useState<Record<number, string>>({});
+  const [toolCalls, setToolCalls] = useState<Record<number, MatchToolEvent[]>>({});
   const abortRef = useRef<AbortController | null>(null);
-  const [eloChart, setEloChart] = useState<Array<{ model: string; rating: number }>>([]);
+  const [ratingSystem, setRatingSystem] = useLocalStorage<RatingSystem>("rating-system", DEFAULT_RATING_SYSTEM);
+  const [leaderboards, refreshLeaderboard] = useLeaderboard(ratingSystem);
   const [lastEloDelta, setLastEloDelta] = useState<{ white: number; black: number }>({ white: 0, black: 0 });
   const [illegalState, setIllegalState] = useState<{ white: number; black: number }>({ white: 0, black: 0 });
   const [lastIllegalMove, setLastIllegalMove] = useState<MatchStatusEvent["illegalMove"] | null>(null);
   const [evalScore, setEvalScore] = useState<number | null>(null);
   const [evalStatus, setEvalStatus] = useState<string>("Idle");
   const [evalEnabled, setEvalEnabled] = useState(true);
-  const [clockMinutes, setClockMinutes] = useState<number>(3);
+  const [timeControlText, setTimeControlText] = useState(""); // empty = untimed (bullet falls back to 3+0)
   const [clocks, setClocks] = useState<{ white: number; black: number }>({ white: 0, black: 0 });
   const [displayClocks, setDisplayClocks] = useState<{ white: number; black: number }>({ white: 0, black: 0 });
   const [turnStartTs, setTurnStartTs] = useState<number | null>(null);
@@ -148,25 +227,63 @@ export default function Home() {
   const [pgnCopiedLabel, setPgnCopiedLabel] = useState<string | null>(null);
   const activeColorFromFen = () => (fen.split(" ")[1] === "w" ? "white" : "black");
   const activeColor = activeColorFromFen();
-  const bulletInitialMs = Math.min(3, Math.max(1, clockMinutes)) * 60_000;
+  const clockSetup = useMemo(() => resolveClockText(mode, timeControlText), [mode, timeControlText]);
+  const timeControl = clockSetup.timeControl;
+  const initialClockMs = (timeControl?.baseSeconds ?? 0) * 1000;
   const formatClock = (ms: number) => {
     const totalSeconds = Math.max(0, Math.floor(ms / 1000));
     const minutes = Math.floor(totalSeconds / 60);
     const seconds = totalSeconds % 60;
     return `${minutes}:${seconds.toString().padStart(2, "0")}`;
   };
-  const estimatedTokens = estimateTokens(moves, fen, activeColor, mode, mode === "bullet" ? {
+  const estimatedTokens = estimateTokens(moves, fen, activeColor, mode, timeControl ? {
     clockMsRemaining: clocks[activeColor],
-    initialClockMs: bulletInitialMs
+    timeControl
   } : undefined);
   const estimatedTotalTokens = estimatedTokens.total.input + estimatedTokens.total.output;
   const whiteModelMeta = modelOptions.find((m) => m.value === whiteModel);
   const blackModelMeta = modelOptions.find((m) => m.value === blackModel);
   const estCostWhite = estimateCost(whiteModelMeta, estimatedTokens.perSide.input, estimatedTokens.perSide.output);
   const estCostBlack = estimateCost(blackModelMeta, estimatedTokens.perSide.input, estimatedTokens.perSide.output);
-  const getElo = (modelValue: string) => {
-    return eloChart.find((e) => e.model === modelValue)?.rating ?? 1000;
+  // Live totals come from move events; the final result also counts replies that were rejected.
+  const movesUsage = (side: "white" | "black") =>
+    moves.reduce((sum, m) => (m.activeColor === side && m.usage ? addUsage(sum, m.usage) : sum), EMPTY_USAGE);
+  const actualUsage = result?.usage ?? { white: movesUsage("white"), black: movesUsage("black") };
+  const actualCostWhite = result?.costUsd?.white ?? actualCost(whiteModelMeta, actualUsage.white);
+  const actualCostBlack = result?.costUsd?.black ?? actualCost(blackModelMeta, actualUsage.black);
+  const actualTotalTokens =
+    actualUsage.white.inputTokens + actualUsage.white.outputTokens + actualUsage.black.inputTokens + actualUsage.black.outputTokens;
+  const budgetLeft = result?.budget ?? moves[moves.length - 1]?.budget;
+  const formatUsd = (cost: number) => (cost ? `$${cost.toFixed(4)}` : "n/a");
+  const ratingLabel = RATING_SYSTEM_LABELS[ratingSystem];
+  // Player ratings come from the pool the chosen mode and clock play in.
+  const currentPool = ratingPool(mode, timeControl);
+  const [leaderboardPool, setLeaderboardPool] = useState<RatingPool>(currentPool);
+  // The leaderboard follows the settings; its picker can still show any other pool.
+  useEffect(() => {
+    setLeaderboardPool(currentPool);
+  }, [currentPool]);
+  const getRating = (modelValue: string, pools = leaderboards): PlayerRating => {
+    return pools[currentPool]?.find((e) => e.model === modelValue) ?? initialRating(ratingSystem);
   };
+  const gatewayRequired = needsGateway([whiteModel, blackModel]);
+  const startSetup = useMemo<StartSetup>(() => {
+    if (variant === "chess960") {
+      const seed = Number(chess960SeedText.trim());
+      if (!chess960SeedText.trim() || !Number.isSafeInteger(seed)) {
+        return { fen: null, error: "Chess960 seed must be a whole number" };
+      }
+      const chess960Position = chess960PositionFromSeed(seed);
+      return { chess960Seed: seed, chess960Position, fen: chess960StartFen(chess960Position), error: null };
+    }
+    const parsed = parseStartInput(startPosition);
+    try {
+      return { ...parsed, fen: loadStartPosition(parsed.startFen, parsed.startPgn).fen(), error: null };
+    } catch (err: any) {
+      return { ...parsed, fen: null, error: (err?.message as string) ?? "Invalid start position" };
+    }
+  }, [startPosition, variant, chess960SeedText]);
+  const canStart = (!gatewayRequired || !!apiKey.trim()) && !startSetup.error && !clockSetup.error;
   const whiteLabel = whiteModelMeta?.label ?? "White";
   const blackLabel = blackModelMeta?.label ?? "Black";
   const currentWinnerLabel = result ? getWinnerLabel(result, whiteLabel, blackLabel) : "";
@@ -252,17 +369,19 @@ export default function Home() {
   }, [boardExpanded]);
 
   useEffect(() => {
-    if (mode !== "bullet") {
+    if (!timeControl) {
       setDisplayClocks({ white: clocks.white, black: clocks.black });
       return;
     }
     setDisplayClocks({ white: clocks.white, black: clocks.black });
     if (!running || !activeTurn || turnStartTs === null) return;
+    // Mirrors the server: the delay portion of a move is not charged.
+    const delayMs = (timeControl.delaySeconds ?? 0) * 1000;
     const tick = () => {
       setDisplayClocks(() => {
         const next = { ...clocks };
         if (activeTurn && turnStartTs !== null) {
-          next[activeTurn] = Math.max(0, clocks[activeTurn] - (Date.now() - turnStartTs));
+          next[activeTurn] = Math.max(0, clocks[activeTurn] - Math.max(0, Date.now() - turnStartTs - delayMs));
         }
         return next;
       });
@@ -270,25 +389,13 @@ export default function Home() {
     tick();
     const id = window.setInterval(tick, 200);
     return () => window.clearInterval(id);
-  }, [mode, running, clocks, activeTurn, turnStartTs]);
+  }, [timeControl, running, clocks, activeTurn, turnStartTs]);
 
   useEffect(() => {
-    const toLabel = (id: string) => modelOptions.find((m) => m.value === id)?.label ?? id;
-    const stored = localStorage.getItem("elo-standings");
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored) as Array<{ model: string; rating: number }>;
-        if (Array.isArray(parsed)) {
-          setEloChart(parsed.sort((a, b) => b.rating - a.rating));
-          return;
-        }
-      } catch {
-        // ignore
-      }
-    }
-    const baseline = modelOptions.map((m) => ({ model: m.value, rating: 1000 }));
-    setEloChart(baseline);
-  }, []);
+    // Preview the chosen start position until a game has been played on the board.
+    if (running || moves.length || !startSetup.fen) return;
+    setFen(startSetup.fen);
+  }, [running, moves.length, startSetup.fen]);
 
   useEffect(() => {
     return () => {
@@ -303,7 +410,7 @@ export default function Home() {
   }, []);
 
   const syncClocksFromEvent = (incoming?: MatchClocks, nextTurn?: "white" | "black" | null) => {
-    if (mode !== "bullet" || !incoming) return;
+    if (!timeControl || !incoming) return;
     setClocks({ white: incoming.whiteMs, black: incoming.blackMs });
     setDisplayClocks({ white: incoming.whiteMs, black: incoming.blackMs });
     if (nextTurn !== undefined) {
@@ -330,6 +437,23 @@ export default function Home() {
       return;
     }
 
+    if (event.type === "thought") {
+      setThoughts((prev) => ({ ...prev, [event.ply]: event.text }));
+      return;
+    }
+
+    if (event.type === "tool") {
+      setToolCalls((prev) => ({ ...prev, [event.ply]: [...(prev[event.ply] ?? []), event] }));
+      setStatus(`${event.activeColor} called ${event.tool}`);
+      return;
+    }
+
+    if (event.type === "draw-offer") {
+      const verb = event.action === "offer" ? "offers a draw" : event.action === "accept" ? "accepts the draw" : "declines the draw";
+      setStatus(`${event.activeColor} ${verb}`);
+      return;
+    }
+
     if (event.type === "move") {
       setFen(event.fen);
       setMoves((prev) => [...prev, event]);
@@ -345,6 +469,14 @@ export default function Home() {
       return;
     }
 
+    if (event.type === "error") {
+      setTurnStartTs(null);
+      setActiveTurn(null);
+      setRunning(false);
+      setStatus(event.message);
+      return;
+    }
+
     if (event.type === "end") {
       syncClocksFromEvent(event.result.clocks, null);
       setTurnStartTs(null);
@@ -367,7 +499,7 @@ export default function Home() {
           id: `match-${Date.now()}`,
           playedAt: Date.now(),
           mode,
-          clockMinutes: mode === "bullet" ? clockMinutes : undefined,
+          timeControl,
           white: { id: whiteModel, label: whiteLabel },
           black: { id: blackModel, label: blackLabel },
           result: event.result,
@@ -379,71 +511,39 @@ export default function Home() {
       });
       setRunning(false);
       setStatus(
-        event.result.winner === "draw"
-          ? `Draw - ${reasonLabel}`
+        event.result.winner === "draw" || isNoContest(event.result)
+          ? `${winnerLabel} - ${reasonLabel}`
           : `Winner: ${winnerLabel} (${reasonLabel})`
       );
       playSound("gameover");
       setIllegalState(event.result.illegalCounts);
       queueEvaluation(event.result.finalFen);
-
-      // Elo update and delta
-      const applyElo = (elo: Array<{ model: string; rating: number }>, whiteId: string, blackId: string, result: MatchResult) => {
-        const K = 24;
-        const ra = elo.find((e) => e.model === whiteId)?.rating ?? 1000;
-        const rb = elo.find((e) => e.model === blackId)?.rating ?? 1000;
-        const expectedA = 1 / (1 + Math.pow(10, (rb - ra) / 400));
-        const expectedB = 1 / (1 + Math.pow(10, (ra - rb) / 400));
-        let scoreA = 0.5;
-        let scoreB = 0.5;
-        if (result.winner === "white") {
-          scoreA = 1;
-          scoreB = 0;
-        } else if (result.winner === "black") {
-          scoreA = 0;
-          scoreB = 1;
-        }
-        const newRa = ra + K * (scoreA - expectedA);
-        const newRb = rb + K * (scoreB - expectedB);
-        return {
-          updated: [
-            { model: whiteId, rating: newRa },
-            { model: blackId, rating: newRb },
-            ...elo.filter((e) => e.model !== whiteId && e.model !== blackId)
-          ].sort((a, b) => b.rating - a.rating),
-          delta: { white: newRa - ra, black: newRb - rb }
-        };
-      };
-
-      const { updated, delta } = applyElo(eloChart, whiteModel, blackModel, event.result);
-      setEloChart(updated);
-      setLastEloDelta({ white: delta.white, black: delta.black });
-      try {
-        localStorage.setItem("elo-standings", JSON.stringify(updated));
-      } catch {
-        // ignore
-      }
     }
   };
 
   const startMatch = async () => {
     const key = apiKey.trim();
-    if (!key) {
+    if (gatewayRequired && !key) {
       setStatus("Add your Vercel AI Gateway API key to start a match.");
       return;
     }
+    if (startSetup.error || clockSetup.error) {
+      setStatus(startSetup.error ?? clockSetup.error ?? "");
+      return;
+    }
     setRunning(true);
     setStatus("Launching bots via Vercel AI Gateway...");
     setMoves([]);
+    setThoughts({});
+    setToolCalls({});
     setResult(null);
     setIllegalState({ white: 0, black: 0 });
     setLastIllegalMove(null);
     setPgnCopiedLabel(null);
-    const startFen = new Chess().fen();
-    setFen(startFen);
-    if (mode === "bullet") {
-      setClocks({ white: bulletInitialMs, black: bulletInitialMs });
-      setDisplayClocks({ white: bulletInitialMs, black: bulletInitialMs });
+    setFen(startSetup.fen ?? new Chess().fen());
+    if (timeControl) {
+      setClocks({ white: initialClockMs, black: initialClockMs });
+      setDisplayClocks({ white: initialClockMs, black: initialClockMs });
       setActiveTurn("white");
       setTurnStartTs(Date.now());
     } else {
@@ -455,6 +555,7 @@ export default function Home() {
 
     const controller = new AbortController();
     abortRef.current = controller;
+    const ratingsBefore = { white: getRating(whiteModel).rating, black: getRating(blackModel).rating };
 
     const response = await fetch("/api/match", {
       method: "POST",
@@ -462,8 +563,27 @@ export default function Home() {
         whiteModel,
         blackModel,
         mode,
-        clockMinutes: mode === "bullet" ? clockMinutes : undefined,
-        apiKey: key
+        timeControl,
+        scriptedMoves: {
+          white: whiteModel === "local/scripted" ? parseScriptedMoves(scriptText.white) : undefined,
+          black: blackModel === "local/scripted" ? parseScriptedMoves(scriptText.black) : undefined
+        },
+        startFen: startSetup.startFen,
+        startPgn: startSetup.startPgn,
+        variant,
+        chess960Seed: startSetup.chess960Seed,
+        explain,
+        promptStyle,
+        conversationWindow: promptStyle === "conversation" ? conversationWindow : undefined,
+        boardRepresentations,
+        assistance,
+        submission,
+        analysisTools,
+        toolCallBudget: analysisTools ? toolCallBudget : undefined,
+        moveExtraction,
+        budget: hasBudget(budget) ? budget : undefined,
+        adjudication: adjudicate ? DEFAULT_ADJUDICATION : undefined,
+        apiKey: key || undefined
       }),
       headers: { "Content-Type": "application/json" },
       signal: controller.signal
@@ -520,6 +640,15 @@ export default function Home() {
       abortRef.current = null;
       setRunning(false);
     }
+
+    // The server stores the game before closing the stream, so the leaderboard already counts it.
+    const rows = await refreshLeaderboard();
+    if (rows) {
+      setLastEloDelta({
+        white: getRating(whiteModel, rows).rating - ratingsBefore.white,
+        black: getRating(blackModel, rows).rating - ratingsBefore.black
+      });
+    }
   };
 
   const stopMatch = () => {
@@ -585,13 +714,14 @@ export default function Home() {
   };
 
   const heroSubtitle = useMemo(() => {
+    const clockText = timeControl ? ` Clock ${formatTimeControl(timeControl)}; flagging loses immediately.` : "";
     if (mode === "bullet") {
-      return `Bullet Mode: ${clockMinutes}-minute clocks per side. Flags lose immediately; 3 illegal moves still forfeit.`;
+      return `Bullet Mode: 3 illegal moves still forfeit.${clockText}`;
     }
     return mode === "strict"
-      ? "Strict Mode: 3 illegal moves forfeits the match."
-      : "Chaos Mode: illegal moves are executed anyway.";
-  }, [mode, clockMinutes]);
+      ? `Strict Mode: 3 illegal moves forfeits the match.${clockText}`
+      : `Chaos Mode: illegal moves are executed anyway.${clockText}`;
+  }, [mode, timeControl]);
 
   return (
     <main className="min-h-screen bg-arena-bg bg-[radial-gradient(circle_at_20%_10%,rgba(77,208,225,0.06),transparent_25%),radial-gradient(circle_at_80%_0%,rgba(167,139,250,0.08),transparent_22%)]">
@@ -621,6 +751,30 @@ export default function Home() {
               <ModelPicker label="Model A (White)" value={whiteModel} onChange={setWhiteModel} options={modelOptions} />
               <ModelPicker label="Model B (Black)" value={blackModel} onChange={setBlackModel} options={modelOptions} />
             </div>
+            {(whiteModel === "local/scripted" || blackModel === "local/scripted") && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(["white", "black"] as const).map((side) =>
+                  (side === "white" ? whiteModel : blackModel) === "local/scripted" ? (
+                    <div key={side} className="space-y-1">
+                      <label className="text-sm text-slate-200">Scripted moves ({side})</label>
+                      <input
+                        type="text"
+                        value={scriptText[side]}
+                        onChange={(e) => setScriptText((prev) => ({ ...prev, [side]: e.target.value }))}
+                        placeholder="e2e4 g1f3 e2e5 ..."
+                        disabled={running}
+                        className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 font-mono text-sm text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                      />
+                      <p className="text-xs text-slate-500">
+                        Played verbatim, illegal moves included. Use {SCRIPT_EMPTY_TOKEN} for an empty reply; resigns when the list runs out.
+                      </p>
+                    </div>
+                  ) : (
+                    <div key={side} className="hidden md:block" />
+                  )
+                )}
+              </div>
+            )}
             <div className="space-y-2">
               <label className="text-sm text-slate-200">Your Vercel AI Gateway key (BYOK)</label>
               <input
@@ -631,15 +785,90 @@ export default function Home() {
                 autoComplete="off"
                 className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white outline-none focus:border-arena-accent"
               />
-              <p className="text-xs text-slate-500">Stored locally in your browser and sent only with your match requests.</p>
+              <p className="text-xs text-slate-500">
+                Stored locally in your browser and sent only with your match requests. Not needed when both sides are Local players.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="text-sm text-slate-200">Start position (optional)</label>
+                <div className="flex gap-2">
+                  {(["standard", "chess960"] as MatchVariant[]).map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => {
+                        setVariant(v);
+                        if (v === "chess960" && !chess960SeedText.trim()) setChess960SeedText(String(randomChess960Seed()));
+                      }}
+                      disabled={running}
+                      className={clsx(
+                        "rounded-md border px-2 py-1 text-xs transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        variant === v
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {v === "standard" ? "Standard" : "Chess960"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {variant === "chess960" ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={chess960SeedText}
+                    onChange={(e) => setChess960SeedText(e.target.value)}
+                    placeholder="Seed"
+                    disabled={running}
+                    className="w-40 rounded-md border border-white/10 bg-white/5 px-3 py-2 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                  />
+                  <button
+                    onClick={() => setChess960SeedText(String(randomChess960Seed()))}
+                    disabled={running}
+                    className="rounded-md border border-white/10 px-3 py-2 text-xs hover:border-arena-accent disabled:opacity-40"
+                  >
+                    Shuffle
+                  </button>
+                </div>
+              ) : (
+                <textarea
+                  value={startPosition}
+                  onChange={(e) => setStartPosition(e.target.value)}
+                  placeholder="Standard start. Paste a FEN or a PGN move prefix (e.g. 1. e4 c5 2. Nf3) to begin elsewhere."
+                  rows={2}
+                  disabled={running}
+                  className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                />
+              )}
+              {startSetup.error ? (
+                <p className="text-xs text-red-300">{startSetup.error}</p>
+              ) : startSetup.chess960Position !== undefined ? (
+                <p className="text-xs text-slate-500">
+                  Chess960 position #{startSetup.chess960Position}. The same seed always gives the same setup; castle with O-O / O-O-O.
+                </p>
+              ) : startSetup.startFen || startSetup.startPgn ? (
+                <p className="text-xs text-slate-500">
+                  Using {startSetup.startFen ? "FEN" : "PGN prefix"}; {startSetup.fen?.split(" ")[1] === "w" ? "White" : "Black"} to move.
+                </p>
+              ) : null}
             </div>
             <div className="flex flex-wrap items-center gap-3">
               <button
                 onClick={startMatch}
-                disabled={running || !apiKey.trim()}
+                disabled={running || !canStart}
                 className="rounded-md bg-arena-accent px-4 py-2 font-semibold text-black hover:bg-cyan-300 disabled:opacity-50"
               >
-                {running ? "Match Running..." : !apiKey.trim() ? "Add API Key to Start" : "Start Match"}
+                {running
+                  ? "Match Running..."
+                  : startSetup.error
+                    ? "Fix Start Position"
+                    : clockSetup.error
+                      ? "Fix Time Control"
+                      : !canStart
+                        ? "Add API Key to Start"
+                        : "Start Match"}
               </button>
               <button
                 onClick={stopMatch}
@@ -667,26 +896,196 @@ export default function Home() {
                     </button>
                   ))}
                 </div>
-                {mode === "bullet" && (
-                  <div className="flex items-center gap-1 text-sm">
-                    <span className="text-slate-400">Clock</span>
-                    {[1, 2, 3].map((min) => (
-                      <button
-                        key={min}
-                        onClick={() => setClockMinutes(min)}
+                <div className="flex flex-wrap items-center gap-1 text-sm">
+                  <span className="text-slate-400">Clock</span>
+                  {["", ...TIME_CONTROL_PRESETS].map((preset) => (
+                    <button
+                      key={preset || "off"}
+                      onClick={() => setTimeControlText(preset)}
+                      disabled={running}
+                      className={clsx(
+                        "rounded-md border px-2 py-1 text-xs sm:text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        timeControlText.trim() === preset
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {preset || (mode === "bullet" ? "3+0" : "Off")}
+                    </button>
+                  ))}
+                  <input
+                    type="text"
+                    value={timeControlText}
+                    onChange={(e) => setTimeControlText(e.target.value)}
+                    placeholder="5+3 d2"
+                    disabled={running}
+                    className="w-24 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                  />
+                  {clockSetup.error && <span className="text-xs text-red-300">{clockSetup.error}</span>}
+                </div>
+                <label
+                  className="flex items-center gap-1 text-sm text-slate-300 cursor-pointer select-none"
+                  title="Models reply with a move plus a one-line reason, shown in the move log and the PGN. Uses more output tokens."
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-arena-accent"
+                    checked={explain}
+                    disabled={running}
+                    onChange={(e) => setExplain(e.target.checked)}
+                  />
+                  Explain moves
+                </label>
+                <div className="flex items-center gap-1 text-sm">
+                  <label
+                    className="flex items-center gap-1 text-slate-300 cursor-pointer select-none"
+                    title="Gateway models may call list_legal_moves, is_square_attacked and apply_and_show_fen before moving"
+                  >
+                    <input
+                      type="checkbox"
+                      className="accent-arena-accent"
+                      checked={analysisTools}
+                      disabled={running}
+                      onChange={(e) => setAnalysisTools(e.target.checked)}
+                    />
+                    Analysis tools
+                  </label>
+                  {analysisTools && (
+                    <label className="flex items-center gap-1 text-xs text-slate-400">
+                      calls/move
+                      <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={toolCallBudget}
+                        onChange={(e) => setToolCallBudget(Math.max(1, Math.min(20, Number(e.target.value) || 1)))}
                         disabled={running}
-                        className={clsx(
-                          "rounded-md border px-2 py-1 text-xs sm:text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
-                          clockMinutes === min
-                            ? "border-arena-accent bg-arena-accent/20 text-white"
-                            : "border-white/10 text-slate-300 hover:border-arena-accent/50"
-                        )}
-                      >
-                        {min}m
-                      </button>
-                    ))}
-                  </div>
-                )}
+                        className="w-14 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                      />
+                    </label>
+                  )}
+                </div>
+                <BudgetInputs label="Budget" value={budget} onChange={setBudget} disabled={running} />
+                <label
+                  className="flex items-center gap-1 text-sm text-slate-300 cursor-pointer select-none"
+                  title={ADJUDICATION_HINT}
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-arena-accent"
+                    checked={adjudicate}
+                    disabled={running}
+                    onChange={(e) => setAdjudicate(e.target.checked)}
+                  />
+                  Adjudicate
+                </label>
+                <div className="flex items-center gap-1 text-sm">
+                  <span className="text-slate-400">Prompt</span>
+                  {(["one-shot", "conversation"] as PromptStyle[]).map((style) => (
+                    <button
+                      key={style}
+                      onClick={() => setPromptStyle(style)}
+                      disabled={running}
+                      title={
+                        style === "one-shot"
+                          ? "Fresh prompt every ply with the last moves inlined"
+                          : "Each side keeps a running chat; illegal-move feedback arrives as follow-up turns"
+                      }
+                      className={clsx(
+                        "rounded-md border px-2 py-1 text-xs sm:text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        promptStyle === style
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {style === "one-shot" ? "One-shot" : "Conversation"}
+                    </button>
+                  ))}
+                  {promptStyle === "conversation" && (
+                    <label className="flex items-center gap-1 text-xs text-slate-400">
+                      window
+                      <input
+                        type="number"
+                        min={1}
+                        max={200}
+                        value={conversationWindow}
+                        onChange={(e) => setConversationWindow(Math.max(1, Math.min(200, Number(e.target.value) || 1)))}
+                        disabled={running}
+                        className="w-16 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                      />
+                    </label>
+                  )}
+                </div>
+                <BoardRepresentationPicker
+                  value={boardRepresentations}
+                  onChange={setBoardRepresentations}
+                  disabled={running}
+                />
+                <div className="flex items-center gap-1 text-sm">
+                  <span className="text-slate-400">Help</span>
+                  {(["off", "piece", "ladder"] as AssistancePolicy[]).map((policy) => (
+                    <button
+                      key={policy}
+                      onClick={() => setAssistance(policy)}
+                      disabled={running}
+                      title={ASSISTANCE_HINTS[policy]}
+                      className={clsx(
+                        "rounded-md border px-2 py-1 text-xs sm:text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        assistance === policy
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {policy === "off" ? "Off" : policy === "piece" ? "Piece moves" : "Ladder"}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 text-sm">
+                  <span className="text-slate-400">Submit</span>
+                  {(["text", "tool"] as MoveSubmission[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setSubmission(option)}
+                      disabled={running}
+                      title={
+                        option === "text"
+                          ? "Read the move from the reply text"
+                          : "Models call a make_move tool; unreadable replies are not counted as illegal moves"
+                      }
+                      className={clsx(
+                        "rounded-md border px-2 py-1 text-xs sm:text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        submission === option
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {option === "text" ? "Text" : "Tool call"}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 text-sm">
+                  <span className="text-slate-400">Parse</span>
+                  {MOVE_EXTRACTIONS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setMoveExtraction(option)}
+                      disabled={running}
+                      title={
+                        option === "strict"
+                          ? "Play the first word of the reply"
+                          : "Find a legal move anywhere in the reply: UCI, SAN, O-O, code, bold or \"Move: Nf3\""
+                      }
+                      className={clsx(
+                        "rounded-md border px-2 py-1 text-xs sm:text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        moveExtraction === option
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {option === "strict" ? "Strict" : "Lenient"}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
@@ -699,8 +1098,14 @@ export default function Home() {
               </div>
               <div className="flex items-center gap-2 text-sm">
                 <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10">
-                  {mode === "strict" ? "Strict" : mode === "chaos" ? "Chaos" : `Bullet (${clockMinutes}m)`}
+                  {mode === "strict" ? "Strict" : mode === "chaos" ? "Chaos" : "Bullet"}
+                  {timeControl && ` (${formatTimeControl(timeControl)})`}
                 </span>
+                {startSetup.chess960Position !== undefined && (
+                  <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10">
+                    960 #{startSetup.chess960Position}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -710,9 +1115,9 @@ export default function Home() {
                   <div className="flex items-center justify-between text-sm text-slate-200 px-1 mb-1">
                     <div className="flex items-center gap-2 font-semibold">
                       <span>
-                        {blackLabel} | Elo {Math.round(getElo(blackModel))} | Strikes {illegalState.black}/3
+                        {blackLabel} | {ratingLabel} {formatRating(getRating(blackModel))} | Strikes {illegalState.black}/3
                       </span>
-                      {mode === "bullet" && (
+                      {timeControl && (
                         <span
                           className={clsx(
                             "rounded-md border px-2 py-0.5 font-mono text-xs",
@@ -744,9 +1149,9 @@ export default function Home() {
                   <div className="flex items-center justify-between text-sm text-slate-200 px-1 mt-1">
                     <div className="flex items-center gap-2 font-semibold">
                       <span>
-                        {whiteLabel} | Elo {Math.round(getElo(whiteModel))} | Strikes {illegalState.white}/3
+                        {whiteLabel} | {ratingLabel} {formatRating(getRating(whiteModel))} | Strikes {illegalState.white}/3
                       </span>
-                      {mode === "bullet" && (
+                      {timeControl && (
                         <span
                           className={clsx(
                             "rounded-md border px-2 py-0.5 font-mono text-xs",
@@ -799,7 +1204,8 @@ export default function Home() {
                     </>
                   ) : result ? (
                     <span>
-                      Game over: {result.winner === "draw" ? "Draw" : `${currentWinnerLabel} wins`} ({currentReasonLabel})
+                      Game over: {result.winner === "draw" || isNoContest(result) ? currentWinnerLabel : `${currentWinnerLabel} wins`}{" "}
+                      ({currentReasonLabel})
                     </span>
                   ) : (
                     <span>Idle</span>
@@ -810,6 +1216,8 @@ export default function Home() {
                   whiteName={whiteLabel}
                   blackName={blackLabel}
                   latestIllegal={lastIllegalMove ?? undefined}
+                  thoughts={thoughts}
+                  toolCalls={toolCalls}
                 />
               </div>
             </div>
@@ -820,7 +1228,7 @@ export default function Home() {
           <div className="grid gap-4 md:grid-cols-2">
             <div className="glass rounded-xl p-4">
               <div className="flex items-center justify-between mb-2">
-                <h3 className="text-lg font-semibold">Result & Elo Change</h3>
+                <h3 className="text-lg font-semibold">Result & Rating Change</h3>
                 {pgnCopiedLabel && (
                   <span className="text-[11px] rounded-full bg-arena-accent/15 text-arena-accent px-2 py-1">
                     PGN copied: {pgnCopiedLabel}
@@ -832,7 +1240,7 @@ export default function Home() {
                   <p className="text-xl font-bold">
                     Winner:{" "}
                     <span className="text-arena-accent">
-                      {result.winner === "draw" ? "Draw" : currentWinnerLabel}
+                      {currentWinnerLabel}
                     </span>
                   </p>
                   <p className="text-slate-400">Reason: {currentReasonLabel}</p>
@@ -847,10 +1255,10 @@ export default function Home() {
                   <p className="text-xs text-slate-500">Final FEN: {result.finalFen}</p>
                   <div className="text-xs text-slate-300 space-y-1">
                     <div>
-                      {whiteLabel} Elo: {Math.round(getElo(whiteModel))} ({lastEloDelta.white >= 0 ? "+" : ""}{lastEloDelta.white.toFixed(1)})
+                      {whiteLabel} {ratingLabel}: {formatRating(getRating(whiteModel))} ({lastEloDelta.white >= 0 ? "+" : ""}{lastEloDelta.white.toFixed(1)})
                     </div>
                     <div>
-                      {blackLabel} Elo: {Math.round(getElo(blackModel))} ({lastEloDelta.black >= 0 ? "+" : ""}{lastEloDelta.black.toFixed(1)})
+                      {blackLabel} {ratingLabel}: {formatRating(getRating(blackModel))} ({lastEloDelta.black >= 0 ? "+" : ""}{lastEloDelta.black.toFixed(1)})
                     </div>
                   </div>
                   <div className="flex gap-2 pt-2">
@@ -875,7 +1283,7 @@ export default function Home() {
 
             <div className="glass rounded-xl p-4 space-y-3">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold">Token & Cost Estimate</h3>
+                <h3 className="text-lg font-semibold">Token & Cost</h3>
               </div>
               <div className="text-sm text-slate-300 space-y-2">
                 <div className="flex justify-between">
@@ -890,57 +1298,47 @@ export default function Home() {
                     in {estimatedTokens.perSide.input} / out {estimatedTokens.perSide.output}
                   </span>
                 </div>
+                {budgetLeft && (
+                  <div className="flex justify-between">
+                    <span>Budget left</span>
+                    <span className="font-mono text-arena-accent">{formatBudgetLeft(budgetLeft)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span>{whiteLabel} est. cost</span>
-                  <span className="font-mono text-arena-accent">
-                    {estCostWhite ? `$${estCostWhite.toFixed(4)}` : "n/a"}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span>{blackLabel} est. cost</span>
-                  <span className="font-mono text-arena-accent">
-                    {estCostBlack ? `$${estCostBlack.toFixed(4)}` : "n/a"}
+                  <span>Actual tokens {result ? "(game)" : "(so far)"}</span>
+                  <span className="font-mono text-white">
+                    {actualTotalTokens} (in {actualUsage.white.inputTokens + actualUsage.black.inputTokens} / out{" "}
+                    {actualUsage.white.outputTokens + actualUsage.black.outputTokens} / cached{" "}
+                    {actualUsage.white.cachedInputTokens + actualUsage.black.cachedInputTokens})
                   </span>
                 </div>
-                <div className="flex justify-between text-xs text-slate-400">
+                <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-xs text-slate-400">
+                  <span></span>
+                  <span className="text-right">est.</span>
+                  <span className="text-right">actual</span>
+                  <span className="text-sm text-slate-300">{whiteLabel}</span>
+                  <span className="font-mono text-right text-arena-accent">{formatUsd(estCostWhite)}</span>
+                  <span className="font-mono text-right text-white">{formatUsd(actualCostWhite)}</span>
+                  <span className="text-sm text-slate-300">{blackLabel}</span>
+                  <span className="font-mono text-right text-arena-accent">{formatUsd(estCostBlack)}</span>
+                  <span className="font-mono text-right text-white">{formatUsd(actualCostBlack)}</span>
                   <span>Total (both sides)</span>
-                  <span className="font-mono text-white">
-                    {estCostWhite || estCostBlack ? `$${(estCostWhite + estCostBlack).toFixed(4)}` : "n/a"}
-                  </span>
+                  <span className="font-mono text-right text-arena-accent">{formatUsd(estCostWhite + estCostBlack)}</span>
+                  <span className="font-mono text-right text-white">{formatUsd(actualCostWhite + actualCostBlack)}</span>
                 </div>
                 <p className="text-[11px] text-slate-500">
-                  Estimate uses a mid/late-game average; real costs still depend on verbosity, retries, and early resigns.
+                  Estimate uses a mid/late-game average; actual figures are the usage the gateway reported, priced with cache reads at the cache rate.
                 </p>
               </div>
             </div>
 
-            <div className="glass rounded-xl p-4">
-              <h3 className="text-lg font-semibold mb-3">Elo Leaderboard</h3>
-              <div className="space-y-2">
-                {eloChart.slice(0, 10).map((row, idx) => {
-                  const max = eloChart[0]?.rating || 1000;
-                  const width = Math.max(10, Math.min(100, Math.round((row.rating / max) * 100)));
-                  return (
-                    <div key={row.model} className="flex items-center gap-2 text-sm">
-                      <span className="text-slate-400 w-5 text-right">{idx + 1}.</span>
-                      <div className="flex-1">
-                        <div className="flex justify-between text-xs text-slate-400">
-                          <span>{row.model}</span>
-                          <span className="font-mono text-white">{Math.round(row.rating)}</span>
-                        </div>
-                        <div className="mt-1 h-2 rounded-full bg-white/10 overflow-hidden">
-                          <div
-                            className="h-full rounded-full bg-arena-accent"
-                            style={{ width: `${width}%` }}
-                          />
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
-                {!eloChart.length && <p className="text-slate-400 text-sm">No Elo data yet.</p>}
-              </div>
-            </div>
+            <Leaderboard
+              leaderboards={leaderboards}
+              system={ratingSystem}
+              onSystemChange={setRatingSystem}
+              pool={leaderboardPool}
+              onPoolChange={setLeaderboardPool}
+            />
 
             <HistoryPanel
               history={[...history].reverse()}
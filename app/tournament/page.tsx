@@ -1,12 +1,55 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import clsx from "clsx";
-import { getGroupedModels } from "@/lib/models";
-import { MatchMode, MatchMoveEvent, MatchResult } from "@/lib/types";
+import { getGroupedModels, needsGateway } from "@/lib/models";
+import {
+  chess960PositionFromSeed,
+  chess960StartFen,
+  pairingChess960Seed,
+  randomChess960Seed
+} from "@/lib/chess960";
+import { formatTimeControl, resolveClockText, TIME_CONTROL_PRESETS } from "@/lib/time-control";
+import { DEFAULT_TOOL_CALL_BUDGET } from "@/lib/analysis-tools";
+import { MOVE_EXTRACTIONS } from "@/lib/move-extraction";
+import { usageTokens } from "@/lib/costs";
+import { budgetStatus, formatBudgetLeft, hasBudget, tighterBudget } from "@/lib/budget";
+import { isNoContest, isReplayable, MAX_NO_CONTEST_REPLAYS, NO_CONTEST_REPLAY_DELAY_MS } from "@/lib/results";
+import { BudgetInputs } from "@/components/budget-inputs";
+import { ADJUDICATION_HINT, DEFAULT_ADJUDICATION } from "@/lib/adjudication";
+import { ForecastTable } from "@/components/forecast-table";
+import { ForecastSettings, forecastPairing, formatDuration, learnThinkTimes, PlayedGame, scheduleMs } from "@/lib/forecast";
+import { ASSISTANCE_HINTS, DEFAULT_BOARD_REPRESENTATIONS, DEFAULT_CONVERSATION_WINDOW } from "@/lib/prompt";
+import {
+  AssistancePolicy,
+  BoardRepresentation,
+  Budget,
+  MatchMode,
+  MatchMoveEvent,
+  MatchResult,
+  MatchVariant,
+  MoveExtraction,
+  MoveSubmission,
+  PromptStyle,
+  RatingPool,
+  RatingSystem
+} from "@/lib/types";
 import { useLocalStorage } from "@/lib/use-local-storage";
+import { useLeaderboard } from "@/lib/use-leaderboard";
+import {
+  createRatings,
+  DEFAULT_RATING_SYSTEM,
+  formatRating,
+  initialRating,
+  RATING_SYSTEM_LABELS,
+  ratingPool
+} from "@/lib/ratings";
+import { buildStandings } from "@/lib/standings";
+import { Leaderboard } from "@/components/leaderboard";
+import { StandingsTable } from "@/components/standings-table";
 import { Footer } from "@/components/footer";
+import { BoardRepresentationPicker } from "@/components/board-representation-picker";
 
 const Chessboard = dynamic(() => import("react-chessboard").then((mod) => mod.Chessboard), {
   ssr: false
@@ -17,68 +60,81 @@ type MatchCardState = {
   white: string;
   black: string;
   fen: string;
+  chess960Seed?: number;
   moves: MatchMoveEvent[];
   status: string;
   running: boolean;
   result?: MatchResult;
   error?: string;
   controller?: AbortController;
+  skipped?: boolean; // never started because the tournament budget ran out
+  startedAt?: number;
 };
 
 const MAX_PARALLEL = 3;
-const BASE_ELO = 1000;
-const K_FACTOR = 24;
+const THINK_TIME_GAMES = 500; // the most GET /api/games returns
 const LONG_STATUS_THRESHOLD = 80;
 
-function buildPairings(models: string[]) {
-  const pairs: Array<{ white: string; black: string; id: string }> = [];
+// With a 960 base seed every pairing gets its own position; bothColors adds the reversed game on the same one.
+function buildPairings(models: string[], chess960BaseSeed?: number, bothColors = false) {
+  // replay counts how often a pairing has been queued again after a no-contest.
+  const pairs: Array<{ white: string; black: string; id: string; chess960Seed?: number; replay?: number }> = [];
+  let pairingIndex = 0;
   for (let i = 0; i < models.length; i++) {
     for (let j = i + 1; j < models.length; j++) {
       const asWhite = (i + j) % 2 === 0 ? models[i] : models[j];
       const asBlack = asWhite === models[i] ? models[j] : models[i];
-      pairs.push({ white: asWhite, black: asBlack, id: `${asWhite}_vs_${asBlack}_${pairs.length}` });
+      const chess960Seed =
+        chess960BaseSeed === undefined ? undefined : pairingChess960Seed(chess960BaseSeed, pairingIndex++);
+      const games = chess960Seed !== undefined && bothColors ? [[asWhite, asBlack], [asBlack, asWhite]] : [[asWhite, asBlack]];
+      for (const [white, black] of games) {
+        pairs.push({ white, black, id: `${white}_vs_${black}_${pairs.length}`, chess960Seed });
+      }
     }
   }
   return pairs;
 }
 
-function applyEloUpdate(
-  elo: Record<string, number>,
-  white: string,
-  black: string,
-  result: MatchResult
-): Record<string, number> {
-  const ra = elo[white] ?? BASE_ELO;
-  const rb = elo[black] ?? BASE_ELO;
-  const expectedA = 1 / (1 + Math.pow(10, (rb - ra) / 400));
-  const expectedB = 1 / (1 + Math.pow(10, (ra - rb) / 400));
-  let scoreA = 0.5;
-  let scoreB = 0.5;
-  if (result.winner === "white") {
-    scoreA = 1;
-    scoreB = 0;
-  } else if (result.winner === "black") {
-    scoreA = 0;
-    scoreB = 1;
-  }
-  return {
-    ...elo,
-    [white]: ra + K_FACTOR * (scoreA - expectedA),
-    [black]: rb + K_FACTOR * (scoreB - expectedB)
-  };
-}
 
 export default function TournamentPage() {
   const groupedModels = getGroupedModels();
   const [mode, setMode] = useState<MatchMode>("strict");
-  const [clockMinutes, setClockMinutes] = useState(3);
+  const [timeControlText, setTimeControlText] = useState(""); // empty = untimed (bullet falls back to 3+0)
+  const clockSetup = useMemo(() => resolveClockText(mode, timeControlText), [mode, timeControlText]);
+  const timeControl = clockSetup.timeControl;
+  const [variant, setVariant] = useState<MatchVariant>("standard");
+  const [bothColors, setBothColors] = useState(true);
+  const [explain, setExplain] = useState(false);
+  const [promptStyle, setPromptStyle] = useState<PromptStyle>("one-shot");
+  const [conversationWindow, setConversationWindow] = useState(DEFAULT_CONVERSATION_WINDOW);
+  const [boardRepresentations, setBoardRepresentations] = useState<BoardRepresentation[]>(DEFAULT_BOARD_REPRESENTATIONS);
+  const [assistance, setAssistance] = useState<AssistancePolicy>("off");
+  const [submission, setSubmission] = useState<MoveSubmission>("text");
+  const [analysisTools, setAnalysisTools] = useState(false);
+  const [toolCallBudget, setToolCallBudget] = useState(DEFAULT_TOOL_CALL_BUDGET);
+  const [moveExtraction, setMoveExtraction] = useState<MoveExtraction>("strict");
+  const [tournamentBudget, setTournamentBudget] = useState<Budget>({});
+  const [matchBudget, setMatchBudget] = useState<Budget>({});
+  const [replayNoContests, setReplayNoContests] = useState(true);
+  const [adjudicate, setAdjudicate] = useState(false);
+  const [storedGames, setStoredGames] = useState<PlayedGame[]>([]);
+  const [confirming, setConfirming] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const [selected, setSelected] = useState<string[]>([]);
   const [apiKey, setApiKey] = useLocalStorage<string>("arena-api-key", "");
   const [matches, setMatches] = useState<MatchCardState[]>([]);
   const [tStatus, setTStatus] = useState("Pick players and start the arena.");
   const [busy, setBusy] = useState(false);
-  const [elo, setElo] = useState<Record<string, number>>({});
-  const eloStorageKey = "elo-standings";
+  const [ratingSystem, setRatingSystem] = useLocalStorage<RatingSystem>("rating-system", DEFAULT_RATING_SYSTEM);
+  const [leaderboards, refreshLeaderboard] = useLeaderboard(ratingSystem);
+  // Ratings shown next to players come from the pool this tournament plays in.
+  const tournamentPool = ratingPool(mode, timeControl);
+  const [leaderboardPool, setLeaderboardPool] = useState<RatingPool>(tournamentPool);
+  useEffect(() => {
+    setLeaderboardPool(tournamentPool);
+  }, [tournamentPool]);
+  const ratingOf = (model: string) =>
+    formatRating(leaderboards[tournamentPool]?.find((row) => row.model === model) ?? initialRating(ratingSystem));
 
   const toggleSelect = (model: string) => {
     setSelected((prev) => (prev.includes(model) ? prev.filter((m) => m !== model) : [...prev, model]));
@@ -87,10 +143,7 @@ export default function TournamentPage() {
   const formatStatus = (message?: string) => {
     const cleaned = (message ?? "").trim().replace(/\s+/g, " ");
     if (!cleaned) return "";
-    if (cleaned.length > LONG_STATUS_THRESHOLD || cleaned.includes("\n")) {
-      return "non single token response";
-    }
-    return cleaned;
+    return cleaned.length > LONG_STATUS_THRESHOLD ? `${cleaned.slice(0, LONG_STATUS_THRESHOLD - 1)}…` : cleaned;
   };
 
   const stopAll = () => {
@@ -109,33 +162,17 @@ export default function TournamentPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(eloStorageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored) as Array<{ model: string; rating: number }>;
-        if (Array.isArray(parsed)) {
-          const mapped: Record<string, number> = {};
-          parsed.forEach((row) => {
-            mapped[row.model] = row.rating;
-          });
-          setElo(mapped);
-        }
-      }
-    } catch {
-      // ignore
-    }
-  }, []);
-
   const runMatch = async (
     cardId: string,
     white: string,
     black: string,
     mode: MatchMode,
-    apiKeyForMatch: string
-  ) => {
+    apiKeyForMatch: string,
+    chess960Seed?: number,
+    budget?: Budget
+  ): Promise<MatchResult | undefined> => {
     const controller = new AbortController();
-    const bulletMinutes = Math.min(3, Math.max(1, clockMinutes));
+    let finalResult: MatchResult | undefined;
     setMatches((prev) =>
       prev.map((m) =>
         m.id === cardId
@@ -143,6 +180,7 @@ export default function TournamentPage() {
             ...m,
             controller,
             running: true,
+            startedAt: Date.now(),
             status: "Starting..."
           }
           : m
@@ -156,8 +194,22 @@ export default function TournamentPage() {
           whiteModel: white,
           blackModel: black,
           mode,
-          clockMinutes: mode === "bullet" ? bulletMinutes : undefined,
-          apiKey: apiKeyForMatch
+          timeControl,
+          variant: chess960Seed !== undefined ? "chess960" : undefined,
+          chess960Seed,
+          explain,
+          promptStyle,
+          conversationWindow: promptStyle === "conversation" ? conversationWindow : undefined,
+          boardRepresentations,
+          assistance,
+          submission,
+          analysisTools,
+          toolCallBudget: analysisTools ? toolCallBudget : undefined,
+          moveExtraction,
+          budget,
+          adjudication: adjudicate ? DEFAULT_ADJUDICATION : undefined,
+          event: "AI Chess Arena tournament",
+          apiKey: apiKeyForMatch || undefined
         }),
         headers: { "Content-Type": "application/json" },
         signal: controller.signal
@@ -207,7 +259,23 @@ export default function TournamentPage() {
                     : m
                 )
               );
+            } else if (evt.type === "draw-offer") {
+              const verb = { offer: "offers a draw", accept: "accepts the draw", decline: "declines the draw" }[
+                evt.action as "offer" | "accept" | "decline"
+              ];
+              setMatches((prev) =>
+                prev.map((m) => (m.id === cardId ? { ...m, status: `${evt.activeColor} ${verb}` } : m))
+              );
+            } else if (evt.type === "error") {
+              setMatches((prev) =>
+                prev.map((m) =>
+                  m.id === cardId
+                    ? { ...m, running: false, controller: undefined, status: "Error", error: evt.message }
+                    : m
+                )
+              );
             } else if (evt.type === "end") {
+              finalResult = evt.result;
               setMatches((prev) =>
                 prev.map((m) =>
                   m.id === cardId
@@ -222,18 +290,6 @@ export default function TournamentPage() {
                     : m
                 )
               );
-              setElo((prev) => {
-                const updated = applyEloUpdate(prev, white, black, evt.result);
-                const standings = Object.entries(updated)
-                  .map(([model, rating]) => ({ model, rating }))
-                  .sort((a, b) => b.rating - a.rating);
-                try {
-                  localStorage.setItem(eloStorageKey, JSON.stringify(standings));
-                } catch {
-                  // ignore
-                }
-                return updated;
-              });
             }
           } catch {
             // ignore malformed
@@ -257,52 +313,176 @@ export default function TournamentPage() {
         );
       }
     }
+    return finalResult;
+  };
+
+  // Recent games from the server's store, for think times; refetched as tournament games finish.
+  const refreshStoredGames = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games?limit=${THINK_TIME_GAMES}`, { cache: "no-store" });
+      if (!response.ok) return;
+      const { games } = (await response.json()) as { games: PlayedGame[] };
+      setStoredGames(games);
+    } catch {
+      // Keep what was learned so far.
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStoredGames();
+  }, [refreshStoredGames]);
+
+  useEffect(() => {
+    if (!busy) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [busy]);
+
+  const forecastSettings = useMemo<ForecastSettings>(
+    () => ({
+      mode,
+      timeControl,
+      promptStyle,
+      conversationWindow: promptStyle === "conversation" ? conversationWindow : undefined,
+      explain,
+      analysisTools,
+      toolCallBudget: analysisTools ? toolCallBudget : undefined
+    }),
+    [mode, timeControl, promptStyle, conversationWindow, explain, analysisTools, toolCallBudget]
+  );
+  const thinkTimes = useMemo(() => learnThinkTimes(storedGames, forecastSettings), [storedGames, forecastSettings]);
+
+  // The 960 seed does not change the forecast; any seed gives the right number of games.
+  const forecasts = useMemo(
+    () =>
+      buildPairings(selected, variant === "chess960" ? 0 : undefined, bothColors).map((p) =>
+        forecastPairing(p.white, p.black, forecastSettings, thinkTimes)
+      ),
+    [selected, variant, bothColors, forecastSettings, thinkTimes]
+  );
+
+  // Running games count what their forecast has left; queued games wait for a free lane.
+  const etaMs = useMemo(() => {
+    if (!busy) return undefined;
+    const forecastFor = (m: MatchCardState) =>
+      forecastPairing(m.white, m.black, forecastSettings, thinkTimes).durationMs;
+    const runningLeft = matches
+      .filter((m) => m.running)
+      .map((m) => Math.max(0, forecastFor(m) - (now - (m.startedAt ?? now))));
+    const queued = matches.filter((m) => !m.running && !m.result && !m.skipped && !m.error).map(forecastFor);
+    return scheduleMs(queued, MAX_PARALLEL, runningLeft);
+  }, [busy, matches, forecastSettings, thinkTimes, now]);
+
+  const reviewForecast = () => {
+    if (selected.length < 2) {
+      setTStatus("Pick at least two players.");
+      return;
+    }
+    if (clockSetup.error) {
+      setTStatus(clockSetup.error);
+      return;
+    }
+    setConfirming(true);
+    setTStatus("Check the forecast below, then confirm to start.");
   };
 
   const startTournament = async () => {
+    setConfirming(false);
     if (selected.length < 2) {
       setTStatus("Pick at least two players.");
       return;
     }
+    if (clockSetup.error) {
+      setTStatus(clockSetup.error);
+      return;
+    }
     const key = apiKey.trim();
-    if (!key) {
+    if (needsGateway(selected) && !key) {
       setTStatus("Add your Vercel AI Gateway API key to start the tournament.");
       return;
     }
-    const pairings = buildPairings(selected);
+    const pairings = buildPairings(selected, variant === "chess960" ? randomChess960Seed() : undefined, bothColors);
     if (!pairings.length) {
       setTStatus("No pairings generated.");
       return;
     }
-    setElo((prev) => {
-      const next = { ...prev };
-      selected.forEach((m) => {
-        if (next[m] === undefined) next[m] = BASE_ELO;
-      });
-      return next;
-    });
-    const initial: MatchCardState[] = pairings.map((p) => ({
+    const queuedCard = (p: (typeof pairings)[number], status = "Queued"): MatchCardState => ({
       id: p.id,
       white: p.white,
       black: p.black,
-      fen: "start",
+      fen: p.chess960Seed !== undefined ? chess960StartFen(chess960PositionFromSeed(p.chess960Seed)) : "start",
+      chess960Seed: p.chess960Seed,
       moves: [],
-      status: "Queued",
+      status,
       running: false
-    }));
-    setMatches(initial);
+    });
+    setMatches(pairings.map((p) => queuedCard(p)));
     setBusy(true);
     setTStatus(`Running ${pairings.length} matches (${Math.min(MAX_PARALLEL, pairings.length)} at a time)...`);
 
     let cursor = 0;
     let active = 0;
+    // Tournament budget: finished games count what they spent, running games hold their whole cap,
+    // so parallel games can never pass the total together.
+    const capped = hasBudget(tournamentBudget) ? tournamentBudget : undefined;
+    const spent = { usd: 0, tokens: 0 };
+    const held = { usd: 0, tokens: 0 };
+    let budgetExhausted = false;
+
+    const skipRemaining = () => {
+      budgetExhausted = true;
+      const skippedIds = new Set(pairings.slice(cursor).map((p) => p.id));
+      cursor = pairings.length;
+      setMatches((prev) =>
+        prev.map((m) => (skippedIds.has(m.id) ? { ...m, skipped: true, status: "Skipped (budget used up)" } : m))
+      );
+    };
 
     const runNext = async (): Promise<void> => {
-      if (cursor >= pairings.length) return;
+      if (cursor >= pairings.length || budgetExhausted) return;
+      let share: Budget | undefined;
+      if (capped) {
+        const left = budgetStatus(capped, spent.usd + held.usd, spent.tokens + held.tokens);
+        // Split what is left between the games that can start now.
+        const slots = Math.max(1, Math.min(MAX_PARALLEL - active, pairings.length - cursor));
+        share = {
+          maxUsd: left.remainingUsd === undefined ? undefined : left.remainingUsd / slots,
+          maxTokens: left.remainingTokens === undefined ? undefined : Math.floor(left.remainingTokens / slots)
+        };
+        if (share.maxUsd === 0 || share.maxTokens === 0) {
+          skipRemaining();
+          return;
+        }
+      }
+      const gameBudget = tighterBudget(hasBudget(matchBudget) ? matchBudget : undefined, share);
       const pairing = pairings[cursor++];
       active += 1;
-      await runMatch(pairing.id, pairing.white, pairing.black, mode, key);
+      held.usd += share?.maxUsd ?? 0;
+      held.tokens += share?.maxTokens ?? 0;
+      // Replays wait longer each time so a rate limit can clear.
+      const replayDelay = NO_CONTEST_REPLAY_DELAY_MS * (pairing.replay ?? 0);
+      if (replayDelay) await new Promise((resolve) => setTimeout(resolve, replayDelay));
+      const result = await runMatch(pairing.id, pairing.white, pairing.black, mode, key, pairing.chess960Seed, gameBudget);
+      // The server stored the game before closing its stream, so the leaderboard now includes it.
+      refreshLeaderboard();
+      refreshStoredGames();
       active -= 1;
+      held.usd -= share?.maxUsd ?? 0;
+      held.tokens -= share?.maxTokens ?? 0;
+      if (result?.costUsd) spent.usd += result.costUsd.white + result.costUsd.black;
+      if (result?.usage) spent.tokens += usageTokens(result.usage.white) + usageTokens(result.usage.black);
+      // A game cut short by its share of the tournament budget means the rest will not fit either.
+      const cutByShare =
+        (share?.maxUsd ?? Infinity) < (matchBudget.maxUsd ?? Infinity) ||
+        (share?.maxTokens ?? Infinity) < (matchBudget.maxTokens ?? Infinity);
+      if (result?.reason === "budget" && cutByShare && cursor < pairings.length) skipRemaining();
+      // A no-contest says nothing about the models, so the pairing goes to the back of the queue.
+      const replay = (pairing.replay ?? 0) + 1;
+      if (result && isReplayable(result) && replayNoContests && replay <= MAX_NO_CONTEST_REPLAYS && !budgetExhausted) {
+        const again = { ...pairing, id: `${pairing.id}_replay${replay}`, replay };
+        pairings.push(again);
+        setMatches((prev) => [...prev, queuedCard(again, `Queued (replay ${replay} after a no-contest)`)]);
+      }
       if (cursor < pairings.length) {
         await runNext();
       }
@@ -311,44 +491,40 @@ export default function TournamentPage() {
     const starters = Array.from({ length: Math.min(MAX_PARALLEL, pairings.length) }, () => runNext());
     await Promise.all(starters);
     setBusy(false);
-    setTStatus("Tournament finished.");
+    setTStatus(budgetExhausted ? "Tournament stopped: budget used up." : "Tournament finished.");
   };
 
   const allCompleted = useMemo(
-    () => matches.length > 0 && matches.every((m) => !m.running && !!m.result),
+    () => matches.length > 0 && matches.every((m) => m.skipped || (!m.running && !!m.result)),
     [matches]
   );
 
-  const records = useMemo(() => {
-    const map: Record<string, { wins: number; losses: number; draws: number }> = {};
-    const ensure = (model: string) => {
-      if (!map[model]) {
-        map[model] = { wins: 0, losses: 0, draws: 0 };
-      }
-      return map[model];
-    };
+  // The same standings the tournament route returns, rated under the selected system from this run's games.
+  const standings = useMemo(() => {
+    const finished = matches.flatMap((m) => (m.result ? [{ white: m.white, black: m.black, result: m.result }] : []));
+    const ratings = createRatings(ratingSystem);
+    finished.forEach(({ white, black, result }) => ratings.record(white, black, result));
+    const models = Array.from(new Set(matches.flatMap((m) => [m.white, m.black])));
+    return buildStandings(models, finished, ratings, mode);
+  }, [matches, ratingSystem, mode]);
+
+  // Finished games count their totals; live games count what their last move reported.
+  const tournamentBudgetLeft = useMemo(() => {
+    if (!hasBudget(tournamentBudget) || !matches.length) return undefined;
+    let spentUsd = 0;
+    let spentTokens = 0;
     matches.forEach((m) => {
-      ensure(m.white);
-      ensure(m.black);
-      if (!m.result) return;
-      if (m.result.winner === "white") {
-        map[m.white].wins += 1;
-        map[m.black].losses += 1;
-      } else if (m.result.winner === "black") {
-        map[m.black].wins += 1;
-        map[m.white].losses += 1;
+      if (m.result) {
+        spentUsd += m.result.costUsd ? m.result.costUsd.white + m.result.costUsd.black : 0;
+        spentTokens += m.result.usage ? usageTokens(m.result.usage.white) + usageTokens(m.result.usage.black) : 0;
       } else {
-        map[m.white].draws += 1;
-        map[m.black].draws += 1;
+        const live = m.moves[m.moves.length - 1]?.budget;
+        spentUsd += live?.spentUsd ?? 0;
+        spentTokens += live?.spentTokens ?? 0;
       }
     });
-    return Object.entries(map)
-      .map(([model, rec]) => ({ model, ...rec }))
-      .sort(
-        (a, b) =>
-          b.wins - a.wins || a.losses - b.losses || b.draws - a.draws || a.model.localeCompare(b.model)
-      );
-  }, [matches]);
+    return budgetStatus(tournamentBudget, spentUsd, spentTokens);
+  }, [matches, tournamentBudget]);
 
   const rounds = useMemo(() => {
     const groups: MatchCardState[][] = [];
@@ -419,7 +595,7 @@ export default function TournamentPage() {
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-white font-medium">{m.label}</span>
                             <span className="text-[11px] text-slate-400">
-                              Elo {Math.round(elo[m.value] ?? BASE_ELO)}
+                              {RATING_SYSTEM_LABELS[ratingSystem]} {ratingOf(m.value)}
                             </span>
                           </div>
                           <div className="flex items-center gap-2 text-[10px]">
@@ -449,7 +625,9 @@ export default function TournamentPage() {
                 disabled={busy}
                 className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white outline-none focus:border-arena-accent disabled:opacity-50"
               />
-              <p className="text-xs text-slate-500">Stored locally and sent only with your tournament matches.</p>
+              <p className="text-xs text-slate-500">
+                Stored locally and sent only with your tournament matches. Not needed when every player is Local.
+              </p>
             </div>
 
             <div className="flex items-center justify-between flex-wrap gap-3">
@@ -474,26 +652,241 @@ export default function TournamentPage() {
                     ))}
                   </div>
                 </div>
-                {mode === "bullet" && (
-                  <div className="flex items-center gap-1 text-xs sm:text-sm">
-                    <span className="text-slate-400">Clock</span>
-                    {[1, 2, 3].map((min) => (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-slate-300">Start</span>
+                  <div className="flex gap-2">
+                    {(["standard", "chess960"] as MatchVariant[]).map((v) => (
                       <button
-                        key={min}
+                        key={v}
                         disabled={busy}
-                        onClick={() => setClockMinutes(min)}
+                        onClick={() => setVariant(v)}
                         className={clsx(
-                          "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
-                          clockMinutes === min
-                            ? "border-arena-accent bg-arena-accent/20 text-white"
+                          "rounded-md border px-3 py-2 text-sm transition disabled:opacity-40 disabled:cursor-not-allowed",
+                          variant === v
+                            ? "border-arena-accent bg-arena-accent/10 text-white"
                             : "border-white/10 text-slate-300 hover:border-arena-accent/50"
                         )}
                       >
-                        {min}m
+                        {v === "standard" ? "Standard" : "Chess960"}
                       </button>
                     ))}
                   </div>
-                )}
+                  {variant === "chess960" && (
+                    <label className="flex items-center gap-1 text-xs text-slate-300 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={bothColors}
+                        disabled={busy}
+                        onChange={(e) => setBothColors(e.target.checked)}
+                      />
+                      Play each position with both colors
+                    </label>
+                  )}
+                </div>
+                <label
+                  className="flex items-center gap-1 text-xs sm:text-sm text-slate-300 cursor-pointer select-none"
+                  title="Models reply with a move plus a one-line reason, kept in each game's PGN. Uses more output tokens."
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-arena-accent"
+                    checked={explain}
+                    disabled={busy}
+                    onChange={(e) => setExplain(e.target.checked)}
+                  />
+                  Explain moves
+                </label>
+                <div className="flex items-center gap-1 text-xs sm:text-sm">
+                  <span className="text-slate-400">Prompt</span>
+                  {(["one-shot", "conversation"] as PromptStyle[]).map((style) => (
+                    <button
+                      key={style}
+                      disabled={busy}
+                      onClick={() => setPromptStyle(style)}
+                      title={
+                        style === "one-shot"
+                          ? "Fresh prompt every ply with the last moves inlined"
+                          : "Each side keeps a running chat; illegal-move feedback arrives as follow-up turns"
+                      }
+                      className={clsx(
+                        "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        promptStyle === style
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {style === "one-shot" ? "One-shot" : "Conversation"}
+                    </button>
+                  ))}
+                  {promptStyle === "conversation" && (
+                    <label className="flex items-center gap-1 text-xs text-slate-400">
+                      window
+                      <input
+                        type="number"
+                        min={1}
+                        max={200}
+                        value={conversationWindow}
+                        onChange={(e) => setConversationWindow(Math.max(1, Math.min(200, Number(e.target.value) || 1)))}
+                        disabled={busy}
+                        className="w-16 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                      />
+                    </label>
+                  )}
+                </div>
+                <BoardRepresentationPicker
+                  value={boardRepresentations}
+                  onChange={setBoardRepresentations}
+                  disabled={busy}
+                />
+                <div className="flex items-center gap-1 text-xs sm:text-sm">
+                  <span className="text-slate-400">Help</span>
+                  {(["off", "piece", "ladder"] as AssistancePolicy[]).map((policy) => (
+                    <button
+                      key={policy}
+                      onClick={() => setAssistance(policy)}
+                      disabled={busy}
+                      title={ASSISTANCE_HINTS[policy]}
+                      className={clsx(
+                        "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        assistance === policy
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {policy === "off" ? "Off" : policy === "piece" ? "Piece moves" : "Ladder"}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 text-xs sm:text-sm">
+                  <span className="text-slate-400">Submit</span>
+                  {(["text", "tool"] as MoveSubmission[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setSubmission(option)}
+                      disabled={busy}
+                      title={
+                        option === "text"
+                          ? "Read the move from the reply text"
+                          : "Models call a make_move tool; unreadable replies are not counted as illegal moves"
+                      }
+                      className={clsx(
+                        "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        submission === option
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {option === "text" ? "Text" : "Tool call"}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 text-xs sm:text-sm">
+                  <span className="text-slate-400">Parse</span>
+                  {MOVE_EXTRACTIONS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setMoveExtraction(option)}
+                      disabled={busy}
+                      title={
+                        option === "strict"
+                          ? "Play the first word of the reply"
+                          : "Find a legal move anywhere in the reply: UCI, SAN, O-O, code, bold or \"Move: Nf3\""
+                      }
+                      className={clsx(
+                        "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        moveExtraction === option
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {option === "strict" ? "Strict" : "Lenient"}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 text-xs sm:text-sm">
+                  <label
+                    className="flex items-center gap-1 text-slate-300 cursor-pointer select-none"
+                    title="Gateway models may call list_legal_moves, is_square_attacked and apply_and_show_fen before moving"
+                  >
+                    <input
+                      type="checkbox"
+                      className="accent-arena-accent"
+                      checked={analysisTools}
+                      disabled={busy}
+                      onChange={(e) => setAnalysisTools(e.target.checked)}
+                    />
+                    Analysis tools
+                  </label>
+                  {analysisTools && (
+                    <label className="flex items-center gap-1 text-xs text-slate-400">
+                      calls/move
+                      <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={toolCallBudget}
+                        onChange={(e) => setToolCallBudget(Math.max(1, Math.min(20, Number(e.target.value) || 1)))}
+                        disabled={busy}
+                        className="w-14 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                      />
+                    </label>
+                  )}
+                </div>
+                <BudgetInputs label="Tournament budget" value={tournamentBudget} onChange={setTournamentBudget} disabled={busy} />
+                <BudgetInputs label="Per game" value={matchBudget} onChange={setMatchBudget} disabled={busy} />
+                <label
+                  className="flex items-center gap-1 text-xs sm:text-sm text-slate-300 cursor-pointer select-none"
+                  title={`Play a pairing again (up to ${MAX_NO_CONTEST_REPLAYS} times) when a gateway, auth or rate-limit failure ends its game`}
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-arena-accent"
+                    checked={replayNoContests}
+                    disabled={busy}
+                    onChange={(e) => setReplayNoContests(e.target.checked)}
+                  />
+                  Replay no-contests
+                </label>
+                <label
+                  className="flex items-center gap-1 text-xs sm:text-sm text-slate-300 cursor-pointer select-none"
+                  title={ADJUDICATION_HINT}
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-arena-accent"
+                    checked={adjudicate}
+                    disabled={busy}
+                    onChange={(e) => setAdjudicate(e.target.checked)}
+                  />
+                  Adjudicate
+                </label>
+                <div className="flex items-center gap-1 text-xs sm:text-sm">
+                  <span className="text-slate-400">Clock</span>
+                  {["", ...TIME_CONTROL_PRESETS].map((preset) => (
+                    <button
+                      key={preset || "off"}
+                      disabled={busy}
+                      onClick={() => setTimeControlText(preset)}
+                      className={clsx(
+                        "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
+                        timeControlText === preset
+                          ? "border-arena-accent bg-arena-accent/20 text-white"
+                          : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                      )}
+                    >
+                      {preset || (mode === "bullet" ? "3+0" : "Off")}
+                    </button>
+                  ))}
+                  <input
+                    type="text"
+                    value={timeControlText}
+                    onChange={(e) => setTimeControlText(e.target.value)}
+                    placeholder="5+3 d2"
+                    disabled={busy}
+                    className="w-24 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50"
+                  />
+                  {clockSetup.error && <span className="text-xs text-red-300">{clockSetup.error}</span>}
+                </div>
               </div>
               <div className="flex gap-2">
                 <button
@@ -503,19 +896,37 @@ export default function TournamentPage() {
                 >
                   Stop All
                 </button>
+                {confirming && !busy && (
+                  <button
+                    onClick={() => setConfirming(false)}
+                    className="rounded-md border border-white/10 px-3 py-2 text-sm hover:border-arena-accent"
+                  >
+                    Cancel
+                  </button>
+                )}
                 <button
-                  onClick={startTournament}
-                  disabled={busy}
+                  onClick={confirming ? startTournament : reviewForecast}
+                  disabled={busy || !!clockSetup.error}
                   className="rounded-md bg-arena-accent px-4 py-2 text-sm font-semibold text-black hover:bg-cyan-300 disabled:opacity-50"
                 >
-                  {busy ? "Running..." : "Start Tournament"}
+                  {busy
+                    ? "Running..."
+                    : clockSetup.error
+                      ? "Fix Time Control"
+                      : confirming
+                        ? "Confirm Start"
+                        : "Start Tournament"}
                 </button>
               </div>
             </div>
 
             <p className="text-xs text-slate-400">
-              {mode === "bullet" ? `${tStatus} - Bullet ${clockMinutes}m clocks` : tStatus}
+              {timeControl ? `${tStatus} - ${formatTimeControl(timeControl)} clocks` : tStatus}
+              {tournamentBudgetLeft && ` - Budget left: ${formatBudgetLeft(tournamentBudgetLeft)}`}
+              {etaMs !== undefined && ` - ETA ~${formatDuration(etaMs)}`}
             </p>
+
+            {confirming && !busy && <ForecastTable forecasts={forecasts} parallel={MAX_PARALLEL} />}
           </div>
 
           <div className="glass rounded-2xl p-5 space-y-4">
@@ -555,7 +966,13 @@ export default function TournamentPage() {
                         : m.result?.winner === "black"
                           ? m.black
                           : "Draw";
-                    const winnerLabel = m.result ? (m.result.winner === "draw" ? "Draw" : `${winnerName} wins`) : "";
+                    const winnerLabel = m.result
+                      ? m.result.winner === "draw"
+                        ? "Draw"
+                        : isNoContest(m.result)
+                          ? "No contest"
+                          : `${winnerName} wins`
+                      : "";
 
                     return (
                       <div
@@ -575,7 +992,7 @@ export default function TournamentPage() {
                                   m.result?.winner === "white" && "text-white"
                                 )}
                               >
-                                {m.white} (Elo {Math.round(elo[m.white] ?? BASE_ELO)})
+                                {m.white} ({ratingOf(m.white)})
                               </span>
                               <span className="text-slate-500"> vs </span>
                               <span
@@ -584,10 +1001,13 @@ export default function TournamentPage() {
                                   m.result?.winner === "black" && "text-white"
                                 )}
                               >
-                                {m.black} (Elo {Math.round(elo[m.black] ?? BASE_ELO)})
+                                {m.black} ({ratingOf(m.black)})
                               </span>
                             </p>
-                            <p className="text-xs text-slate-500">{m.status}</p>
+                            <p className="text-xs text-slate-500">
+                              {m.chess960Seed !== undefined && `960 #${chess960PositionFromSeed(m.chess960Seed)} - `}
+                              {m.status}
+                            </p>
                           </div>
                           <span
                             className={clsx(
@@ -599,7 +1019,7 @@ export default function TournamentPage() {
                                   : "border-slate-500 text-slate-400"
                             )}
                           >
-                            {m.running ? "Live" : m.result ? "Done" : "Queued"}
+                            {m.running ? "Live" : m.result ? "Done" : m.skipped ? "Skipped" : "Queued"}
                           </span>
                         </div>
 
@@ -609,7 +1029,9 @@ export default function TournamentPage() {
                               "rounded-md px-2 py-1 text-[11px] font-semibold uppercase tracking-wide self-start",
                               m.result.winner === "draw"
                                 ? "bg-yellow-500/20 text-yellow-100"
-                                : "bg-green-500/20 text-green-100"
+                                : isNoContest(m.result)
+                                  ? "bg-white/10 text-slate-300"
+                                  : "bg-green-500/20 text-green-100"
                             )}
                           >
                             {winnerLabel}
@@ -627,7 +1049,7 @@ export default function TournamentPage() {
                               Black: {m.black}
                             </span>
                             <span className="font-mono text-slate-400">
-                              {Math.round(elo[m.black] ?? BASE_ELO)}
+                              {ratingOf(m.black)}
                             </span>
                           </div>
                           <div className="w-full mx-auto max-w-[260px] flex items-center justify-center p-1">
@@ -652,7 +1074,7 @@ export default function TournamentPage() {
                               White: {m.white}
                             </span>
                             <span className="font-mono text-slate-400">
-                              {Math.round(elo[m.white] ?? BASE_ELO)}
+                              {ratingOf(m.white)}
                             </span>
                           </div>
                         </div>
@@ -666,13 +1088,21 @@ export default function TournamentPage() {
                                   "rounded-full px-2 py-1 text-[11px]",
                                   m.result.winner === "draw"
                                     ? "bg-yellow-500/20 text-yellow-100"
-                                    : "bg-arena-accent/20 text-arena-accent font-semibold"
+                                    : isNoContest(m.result)
+                                      ? "bg-white/10 text-slate-300"
+                                      : "bg-arena-accent/20 text-arena-accent font-semibold"
                                 )}
                               >
                                 {winnerLabel}
                               </span>
                             </div>
                             <div className="text-slate-400 mt-1">Reason: {m.result.reason}</div>
+                            {m.result.assistance && (
+                              <div className="text-slate-400">
+                                Assisted moves: W {m.result.assistance.assistedMoves.white} / B{" "}
+                                {m.result.assistance.assistedMoves.black}
+                              </div>
+                            )}
                           </div>
                         )}
 
@@ -717,7 +1147,9 @@ export default function TournamentPage() {
                           const statusLabel = m.result
                             ? m.result.winner === "draw"
                               ? "Draw"
-                              : `${winnerName} wins`
+                              : isNoContest(m.result)
+                                ? "No contest"
+                                : `${winnerName} wins`
                             : m.running
                               ? "Live"
                               : "Pending";
@@ -740,7 +1172,9 @@ export default function TournamentPage() {
                                   m.result
                                     ? m.result.winner === "draw"
                                       ? "bg-yellow-500/20 text-yellow-100"
-                                      : "bg-green-500/20 text-green-100"
+                                      : isNoContest(m.result)
+                                        ? "bg-white/10 text-slate-300"
+                                        : "bg-green-500/20 text-green-100"
                                     : m.running
                                       ? "bg-arena-accent/20 text-arena-accent"
                                       : "bg-slate-700 text-slate-200"
@@ -756,31 +1190,18 @@ export default function TournamentPage() {
                   ))}
                 </div>
 
-                <div className="rounded-xl border border-white/10 bg-white/5">
-                  <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
-                    <span className="text-sm font-semibold text-white">W/L/D by Bot</span>
-                    <span className="text-[11px] text-slate-400">{records.length} bots</span>
-                  </div>
-                  <div className="divide-y divide-white/5">
-                    {records.map((rec) => (
-                      <div
-                        key={`record-${rec.model}`}
-                        className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-2 px-3 py-2 text-sm text-slate-200"
-                      >
-                        <span className="truncate text-white">{rec.model}</span>
-                        <span className="text-green-200 font-semibold">W {rec.wins}</span>
-                        <span className="text-yellow-200">D {rec.draws}</span>
-                        <span className="text-red-200">L {rec.losses}</span>
-                      </div>
-                    ))}
-                    {records.length === 0 && (
-                      <div className="px-3 py-3 text-sm text-slate-400">No results yet.</div>
-                    )}
-                  </div>
-                </div>
+                <StandingsTable standings={standings} />
               </div>
             )}
           </div>
+
+          <Leaderboard
+            leaderboards={leaderboards}
+            system={ratingSystem}
+            onSystemChange={setRatingSystem}
+            pool={leaderboardPool}
+            onPoolChange={setLeaderboardPool}
+          />
         </section>
       </div>
       <Footer />
@@ -0,0 +1,43 @@
+import clsx from "clsx";
+import { BOARD_REPRESENTATION_LABELS, BOARD_REPRESENTATIONS } from "@/lib/prompt";
+import { BoardRepresentation } from "@/lib/types";
+
+interface Props {
+  value: BoardRepresentation[];
+  onChange: (value: BoardRepresentation[]) => void;
+  disabled?: boolean;
+}
+
+const BOARD_VIEWS: BoardRepresentation[] = ["fen", "ascii", "piece-list"];
+
+export function BoardRepresentationPicker({ value, onChange, disabled }: Props) {
+  const toggle = (representation: BoardRepresentation) => {
+    const next = value.includes(representation)
+      ? value.filter((r) => r !== representation)
+      : BOARD_REPRESENTATIONS.filter((r) => r === representation || value.includes(r));
+    // The prompt always needs some picture of the board.
+    if (!next.some((r) => BOARD_VIEWS.includes(r))) return;
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs sm:text-sm">
+      <span className="text-slate-400">Board</span>
+      {BOARD_REPRESENTATIONS.map((representation) => (
+        <button
+          key={representation}
+          disabled={disabled}
+          onClick={() => toggle(representation)}
+          className={clsx(
+            "rounded-md border px-2 py-1 transition disabled:opacity-40 disabled:cursor-not-allowed",
+            value.includes(representation)
+              ? "border-arena-accent bg-arena-accent/20 text-white"
+              : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+          )}
+        >
+          {BOARD_REPRESENTATION_LABELS[representation]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Budget } from "@/lib/types";
+
+interface Props {
+  label: string;
+  value: Budget;
+  onChange: (value: Budget) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "w-20 rounded-md border border-white/10 bg-white/5 px-2 py-1 font-mono text-xs text-white outline-none focus:border-arena-accent disabled:opacity-50";
+
+// Empty fields mean no cap.
+export function BudgetInputs({ label, value, onChange, disabled }: Props) {
+  const parse = (text: string) => (text.trim() === "" || !(Number(text) > 0) ? undefined : Number(text));
+  return (
+    <div className="flex items-center gap-1 text-xs sm:text-sm">
+      <span className="text-slate-400">{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={0.01}
+        placeholder="$ max"
+        value={value.maxUsd ?? ""}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, maxUsd: parse(e.target.value) })}
+        className={inputClass}
+      />
+      <input
+        type="number"
+        min={0}
+        step={1000}
+        placeholder="tokens"
+        value={value.maxTokens ?? ""}
+        disabled={disabled}
+        onChange={(e) => {
+          const tokens = parse(e.target.value);
+          onChange({ ...value, maxTokens: tokens === undefined ? undefined : Math.round(tokens) });
+        }}
+        className={inputClass}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { formatDuration, PairingForecast, scheduleMs } from "@/lib/forecast";
+
+interface Props {
+  forecasts: PairingForecast[];
+  parallel: number;
+}
+
+export function ForecastTable({ forecasts, parallel }: Props) {
+  const totalTokens = forecasts.reduce((sum, f) => sum + f.tokens, 0);
+  const totalUsd = forecasts.reduce((sum, f) => sum + f.usd, 0);
+  const wallClockMs = scheduleMs(forecasts.map((f) => f.durationMs), parallel);
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <span className="text-sm font-semibold text-white">Forecast</span>
+        <span className="text-[11px] text-slate-400">
+          {forecasts.length} games, {parallel} at a time
+        </span>
+      </div>
+      <div className="max-h-64 overflow-auto">
+        <table className="min-w-full text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="px-3 py-1 text-left">Pairing</th>
+              <th className="px-3 py-1 text-right">Tokens</th>
+              <th className="px-3 py-1 text-right">Cost</th>
+              <th className="px-3 py-1 text-right">Time</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecasts.map((f, idx) => (
+              <tr key={`${f.white}-${f.black}-${idx}`} className="odd:bg-arena-card/60 text-slate-200">
+                <td className="px-3 py-1 truncate max-w-[220px]">
+                  {f.white} vs {f.black}
+                </td>
+                <td className="px-3 py-1 text-right font-mono">~{f.tokens}</td>
+                <td className="px-3 py-1 text-right font-mono">{f.usd ? `$${f.usd.toFixed(4)}` : "-"}</td>
+                <td className="px-3 py-1 text-right font-mono">{formatDuration(f.durationMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-white/10 font-semibold text-white">
+              <td className="px-3 py-1">Total</td>
+              <td className="px-3 py-1 text-right font-mono">~{totalTokens}</td>
+              <td className="px-3 py-1 text-right font-mono">{totalUsd ? `$${totalUsd.toFixed(4)}` : "-"}</td>
+              <td className="px-3 py-1 text-right font-mono" title="Wall-clock time with games running in parallel">
+                {formatDuration(wallClockMs)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      <p className="px-3 py-2 text-[11px] text-slate-500">
+        Tokens and cost use the per-game estimate adjusted for the clock, prompt style and tools; times come from
+        stored games played with the same settings where available, and a clock caps them.
+      </p>
+    </div>
+  );
+}
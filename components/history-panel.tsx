@@ -1,3 +1,7 @@
+import { BOARD_REPRESENTATION_LABELS } from "@/lib/prompt";
+import { ratingPool, ratingPoolLabel } from "@/lib/ratings";
+import { isNoContest } from "@/lib/results";
+import { formatTimeControl, resolveTimeControl } from "@/lib/time-control";
 import { MatchHistoryEntry } from "@/lib/types";
 import clsx from "clsx";
 
@@ -19,6 +23,13 @@ function formatPlayedAt(ts: number) {
   }
 }
 
+// Older entries have no clock in the result, so the pool is worked out from the settings they saved.
+function poolNote({ mode, clockMinutes, timeControl, result, white, black }: MatchHistoryEntry) {
+  if (isNoContest(result) || white.id === black.id) return "Not rated";
+  const pool = ratingPool(mode, resolveTimeControl(mode, clockMinutes, result.timeControl ?? timeControl));
+  return `Rated in ${ratingPoolLabel(pool)}`;
+}
+
 export function HistoryPanel({ history, onCopyPgn }: Props) {
   return (
     <div className="glass rounded-xl p-4">
@@ -43,7 +54,23 @@ export function HistoryPanel({ history, onCopyPgn }: Props) {
                   <span className="truncate">{match.black.label}</span>
                 </div>
                 <div className="text-[11px] text-slate-500">
-                  {formatPlayedAt(match.playedAt)} - {match.mode === "bullet" ? `Bullet ${match.clockMinutes ?? 3}m` : match.mode.charAt(0).toUpperCase() + match.mode.slice(1)}
+                  {formatPlayedAt(match.playedAt)} - {match.mode.charAt(0).toUpperCase() + match.mode.slice(1)}
+                  {match.timeControl
+                    ? ` ${formatTimeControl(match.timeControl)}`
+                    : match.mode === "bullet" && ` ${match.clockMinutes ?? 3}m`}
+                  {match.result.variant === "chess960" && ` - Chess960 #${match.result.chess960Position}`}
+                  {match.result.promptStyle === "conversation" && " - Conversation"}
+                  {match.result.boardRepresentations?.some((r) => r !== "fen") &&
+                    ` - ${match.result.boardRepresentations.map((r) => BOARD_REPRESENTATION_LABELS[r]).join(" + ")}`}
+                  {match.result.submission === "tool" && " - Tool calls"}
+                  {match.result.assistance &&
+                    ` - Assisted W ${match.result.assistance.assistedMoves.white} / B ${match.result.assistance.assistedMoves.black}`}
+                  {match.result.moveExtraction && " - Lenient parsing"}
+                  {match.result.toolCalls &&
+                    ` - Tools W ${match.result.toolCalls.white} / B ${match.result.toolCalls.black}`}
+                </div>
+                <div className="text-[11px] text-slate-500" title="The rating pool this game counted toward">
+                  {poolNote(match)}
                 </div>
               </div>
               <div className="flex flex-col items-end gap-1">
@@ -52,13 +79,15 @@ export function HistoryPanel({ history, onCopyPgn }: Props) {
                     "rounded-full px-2 py-1 text-[11px] font-semibold",
                     match.result.winner === "draw"
                       ? "bg-yellow-500/20 text-yellow-100"
-                      : "bg-arena-accent/20 text-arena-accent"
+                      : isNoContest(match.result)
+                        ? "bg-white/10 text-slate-300"
+                        : "bg-arena-accent/20 text-arena-accent"
                   )}
                 >
-                  {match.result.winner === "draw" ? "Draw" : "Win"}
+                  {match.result.winner === "draw" ? "Draw" : isNoContest(match.result) ? "No contest" : "Win"}
                 </span>
                 <span className="text-xs text-slate-300 font-semibold text-right">
-                  {match.result.winner === "draw" ? "Draw" : `Winner: ${match.winnerLabel}`}
+                  {match.result.winner === "draw" || isNoContest(match.result) ? match.winnerLabel : `Winner: ${match.winnerLabel}`}
                 </span>
               </div>
             </div>
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { modelOptions } from "@/lib/models";
+import { formatRating, RATING_SYSTEM_LABELS, RATING_SYSTEMS, ratingPoolLabel } from "@/lib/ratings";
+import { Leaderboards } from "@/lib/use-leaderboard";
+import { useRatingHistory } from "@/lib/use-rating-history";
+import { RatingChart } from "./rating-chart";
+import { RatingPool, RatingSystem } from "@/lib/types";
+
+interface Props {
+  leaderboards: Leaderboards;
+  system: RatingSystem;
+  onSystemChange: (system: RatingSystem) => void;
+  pool: RatingPool; // shown; offered in the picker even before it has games
+  onPoolChange: (pool: RatingPool) => void;
+  limit?: number;
+}
+
+function formatLastPlayed(ts: number) {
+  try {
+    return new Date(ts).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  } catch {
+    return "";
+  }
+}
+
+export function Leaderboard({ leaderboards, system, onSystemChange, pool, onPoolChange, limit = 10 }: Props) {
+  const entries = leaderboards[pool] ?? [];
+  const pools = Array.from(new Set([pool, ...(Object.keys(leaderboards) as RatingPool[])])).sort();
+  const max = Math.max(1, ...entries.map((row) => row.rating));
+  const [selected, setSelected] = useState<string | null>(null);
+  const selectedEntry = entries.find((row) => row.model === selected);
+  const [history, recompute] = useRatingHistory(selectedEntry ? selected : null, pool, selectedEntry?.lastPlayed);
+  const [recomputeStatus, setRecomputeStatus] = useState<string | null>(null);
+
+  const runRecompute = async () => {
+    setRecomputeStatus("Recomputing...");
+    try {
+      await recompute(system);
+      setRecomputeStatus(null);
+    } catch (err) {
+      setRecomputeStatus(err instanceof Error ? err.message : "Recompute failed");
+    }
+  };
+  return (
+    <div className="glass rounded-xl p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold">Leaderboard</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-400">{entries.length} rated</span>
+          <div
+            className="flex gap-1"
+            title="Glicko-2 shows ± deviation and ranks by rating minus twice the deviation; Elo is plain K=24"
+          >
+            {RATING_SYSTEMS.map((s) => (
+              <button
+                key={s}
+                onClick={() => onSystemChange(s)}
+                className={clsx(
+                  "rounded-md border px-2 py-1 text-xs transition",
+                  system === s
+                    ? "border-arena-accent bg-arena-accent/10 text-white"
+                    : "border-white/10 text-slate-300 hover:border-arena-accent/50"
+                )}
+              >
+                {RATING_SYSTEM_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <label className="flex items-center gap-2 mb-3 text-xs text-slate-400">
+        Pool
+        <select
+          value={pool}
+          onChange={(e) => onPoolChange(e.target.value as RatingPool)}
+          className="rounded-md bg-arena-card border border-white/10 px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-arena-accent"
+          title="Each mode and clock speed has its own ratings"
+        >
+          {pools.map((p) => (
+            <option key={p} value={p} className="bg-arena-bg text-white">
+              {ratingPoolLabel(p)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="space-y-2">
+        {entries.slice(0, limit).map((row, idx) => {
+          const width = Math.max(10, Math.min(100, Math.round((row.rating / max) * 100)));
+          const label = modelOptions.find((m) => m.value === row.model)?.label ?? row.model;
+          return (
+            <button
+              key={row.model}
+              onClick={() => setSelected(selected === row.model ? null : row.model)}
+              className={clsx(
+                "flex w-full items-center gap-2 rounded-md text-left text-sm transition",
+                selected === row.model ? "bg-arena-accent/10" : "hover:bg-white/5"
+              )}
+              title="Show rating history"
+            >
+              <span className="text-slate-400 w-5 text-right">{idx + 1}.</span>
+              <div className="flex-1">
+                <div className="flex justify-between gap-2 text-xs text-slate-400">
+                  <span className="truncate" title={row.model}>{label}</span>
+                  <span
+                    className="font-mono text-white whitespace-nowrap"
+                    title={row.provisional ? "Provisional: too few games for a reliable rating" : undefined}
+                  >
+                    {formatRating(row)}
+                  </span>
+                </div>
+                <div className="mt-1 h-2 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full rounded-full bg-arena-accent" style={{ width: `${width}%` }} />
+                </div>
+                <div className="mt-1 flex justify-between text-[11px] text-slate-500">
+                  <span>
+                    {row.wins}W {row.draws}D {row.losses}L in {row.games} games
+                  </span>
+                  <span>Last played {formatLastPlayed(row.lastPlayed)}</span>
+                </div>
+              </div>
+            </button>
+          );
+        })}
+        {!entries.length && <p className="text-slate-400 text-sm">No rated games in this pool yet.</p>}
+      </div>
+      {selectedEntry && history && (
+        <div className="mt-4 space-y-2 border-t border-white/10 pt-3">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate text-slate-300" title={selectedEntry.model}>
+              {modelOptions.find((m) => m.value === selectedEntry.model)?.label ?? selectedEntry.model} over time
+            </span>
+            <button
+              onClick={runRecompute}
+              disabled={recomputeStatus === "Recomputing..."}
+              className="rounded-md border border-white/10 px-2 py-1 text-slate-300 transition hover:border-arena-accent/50 disabled:opacity-50"
+              title="Replay every stored game and redo the rating snapshots under the selected system"
+            >
+              Recompute with {RATING_SYSTEM_LABELS[system]}
+            </button>
+          </div>
+          {history.system !== system && (
+            <p className="text-[11px] text-yellow-200">
+              History was computed with {RATING_SYSTEM_LABELS[history.system]}; recompute to match this leaderboard.
+            </p>
+          )}
+          {recomputeStatus && <p className="text-[11px] text-slate-400">{recomputeStatus}</p>}
+          <RatingChart points={history.points} />
+        </div>
+      )}
+    </div>
+  );
+}
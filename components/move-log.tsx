@@ -1,4 +1,4 @@
-import { MatchMoveEvent, MatchStatusEvent } from "@/lib/types";
+import { MatchMoveEvent, MatchStatusEvent, MatchToolEvent } from "@/lib/types";
 import clsx from "clsx";
 
 interface Props {
@@ -6,6 +6,8 @@ interface Props {
   whiteName?: string;
   blackName?: string;
   latestIllegal?: MatchStatusEvent["illegalMove"];
+  thoughts?: Record<number, string>; // explain-mode rationale keyed by ply
+  toolCalls?: Record<number, MatchToolEvent[]>; // analysis tool calls keyed by ply
 }
 
 function formatTime(ms: number | undefined): string {
@@ -17,7 +19,20 @@ function formatTime(ms: number | undefined): string {
   return `${mins}m ${secs}s`;
 }
 
-export function MoveLog({ moves, whiteName = "White", blackName = "Black", latestIllegal }: Props) {
+function formatToolCall({ tool, input, output }: MatchToolEvent) {
+  const args = Object.values(input).map(String).join(", ");
+  const shortOutput = output.length > 80 ? `${output.slice(0, 77)}...` : output;
+  return `${tool}(${args}) → ${shortOutput}`;
+}
+
+export function MoveLog({
+  moves,
+  whiteName = "White",
+  blackName = "Black",
+  latestIllegal,
+  thoughts = {},
+  toolCalls = {}
+}: Props) {
   const legalMoves = moves.filter((move) => {
     const note = move.note?.toLowerCase() ?? "";
     const san = move.san?.toLowerCase() ?? "";
@@ -31,6 +46,12 @@ export function MoveLog({ moves, whiteName = "White", blackName = "Black", lates
     ((move.note && (move.note.toLowerCase().includes("illegal") || move.note.toLowerCase().includes("invalid"))) ||
       (move.san?.startsWith("?") ?? false) ||
       (move.san?.startsWith("❌") ?? false));
+  const thoughtFor = (move?: MatchMoveEvent) => (move ? thoughts[move.ply] : undefined);
+  const toolCallsFor = (move?: MatchMoveEvent) => (move ? toolCalls[move.ply] ?? [] : []);
+  const moveTitle = (move: MatchMoveEvent) => {
+    const base = move.note || move.san || move.move;
+    return move.extractionRule ? `${base} (read by rule: ${move.extractionRule})` : base;
+  };
 
   legalMoves.forEach(move => {
     const moveNum = move.displayMoveNum ?? Math.floor(move.ply / 2) + 1;
@@ -95,7 +116,7 @@ export function MoveLog({ moves, whiteName = "White", blackName = "Black", lates
                 <span className="flex items-center gap-2 min-w-[96px]">
                   <span className="text-xs text-white">⚪</span>
                   <span
-                    title={white.note || white.san || white.move}
+                    title={moveTitle(white)}
                     className={clsx(
                       "font-mono whitespace-nowrap truncate max-w-[96px] inline-block",
                       isIllegal(white) ? "text-red-300 line-through" : "text-white"
@@ -121,7 +142,7 @@ export function MoveLog({ moves, whiteName = "White", blackName = "Black", lates
                 <span className="flex items-center gap-2 min-w-[96px] border-l border-white/10 pl-2">
                   <span className="text-xs text-white">⚫</span>
                   <span
-                    title={black.note || black.san || black.move}
+                    title={moveTitle(black)}
                     className={clsx(
                       "font-mono whitespace-nowrap truncate max-w-[96px] inline-block",
                       isIllegal(black) ? "text-red-300 line-through" : "text-white"
@@ -140,6 +161,23 @@ export function MoveLog({ moves, whiteName = "White", blackName = "Black", lates
                 <span></span>
               </>
             )}
+
+            {(thoughtFor(white) || thoughtFor(black)) && (
+              <div className="col-span-5 space-y-0.5 pl-10 text-[11px] italic text-slate-400">
+                {thoughtFor(white) && <p>⚪ {thoughtFor(white)}</p>}
+                {thoughtFor(black) && <p>⚫ {thoughtFor(black)}</p>}
+              </div>
+            )}
+
+            {toolCallsFor(white).length + toolCallsFor(black).length > 0 && (
+              <div className="col-span-5 space-y-0.5 pl-10 font-mono text-[10px] text-slate-500">
+                {[...toolCallsFor(white), ...toolCallsFor(black)].map((call, index) => (
+                  <p key={index} className="truncate" title={call.output}>
+                    {call.activeColor === "white" ? "⚪" : "⚫"} {formatToolCall(call)}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
         ))}
 
@@ -0,0 +1,68 @@
+import { modelOptions } from "@/lib/models";
+import { formatRating } from "@/lib/ratings";
+import { PlayerRating, RatingHistoryPoint } from "@/lib/types";
+
+interface Props {
+  points: RatingHistoryPoint[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PAD = 8;
+
+const SCORE_COLORS: Record<number, string> = { 1: "#34d399", 0.5: "#94a3b8", 0: "#f87171" };
+const SCORE_LABELS: Record<number, string> = { 1: "Won", 0.5: "Drew", 0: "Lost" };
+
+function gameTitle(point: RatingHistoryPoint) {
+  const opponent = modelOptions.find((m) => m.value === point.opponent)?.label ?? point.opponent;
+  const date = new Date(point.playedAt).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `${date}: ${SCORE_LABELS[point.score]} as ${point.color} vs ${opponent}, ${formatRating(point.before)} → ${formatRating(point.after)} (open PGN)`;
+}
+
+/**
+ * Rating after each game, starting from the rating before the first, with the ±deviation band
+ * under Glicko-2. Each marker is colored by the result and opens that game's PGN.
+ */
+export function RatingChart({ points }: Props) {
+  if (!points.length) return <p className="text-xs text-slate-400">No rated games with a stored snapshot yet.</p>;
+
+  const ratings: PlayerRating[] = [points[0].before, ...points.map((p) => p.after)];
+  const low = Math.min(...ratings.map((r) => r.rating - (r.deviation ?? 0)));
+  const high = Math.max(...ratings.map((r) => r.rating + (r.deviation ?? 0)));
+  const span = Math.max(1, high - low);
+  const x = (i: number) => PAD + (i * (WIDTH - 2 * PAD)) / Math.max(1, ratings.length - 1);
+  const y = (rating: number) => HEIGHT - PAD - ((rating - low) * (HEIGHT - 2 * PAD)) / span;
+
+  const line = ratings.map((r, i) => `${x(i)},${y(r.rating)}`).join(" ");
+  const band =
+    ratings[0].deviation === undefined
+      ? null
+      : [
+          ...ratings.map((r, i) => `${x(i)},${y(r.rating + (r.deviation ?? 0))}`),
+          ...ratings.map((r, i) => `${x(i)},${y(r.rating - (r.deviation ?? 0))}`).reverse()
+        ].join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" role="img" aria-label="Rating over time">
+        {band && <polygon points={band} className="fill-arena-accent/10" />}
+        <polyline points={line} fill="none" strokeWidth={1.5} className="stroke-arena-accent" />
+        {points.map((point, i) => (
+          <a key={point.gameId} href={`/api/games/${point.gameId}?format=pgn`} target="_blank" rel="noreferrer">
+            <circle cx={x(i + 1)} cy={y(point.after.rating)} r={3} fill={SCORE_COLORS[point.score]}>
+              <title>{gameTitle(point)}</title>
+            </circle>
+          </a>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[11px] text-slate-500">
+        <span>
+          {Math.round(low)}–{Math.round(high)}
+        </span>
+        <span>
+          {points.length} games, now {formatRating(points[points.length - 1].after)}
+        </span>
+      </div>
+    </div>
+  );
+}
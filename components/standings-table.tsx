@@ -1,3 +1,4 @@
+import { formatRating } from "@/lib/ratings";
 import { TournamentStanding } from "@/lib/types";
 
 interface Props {
@@ -25,7 +26,12 @@ export function StandingsTable({ standings }: Props) {
             <tr>
               <th className="px-3 py-2 text-left">#</th>
               <th className="px-3 py-2 text-left">Model</th>
-              <th className="px-3 py-2 text-center">Elo</th>
+              <th
+                className="px-3 py-2 text-center"
+                title="± deviation under Glicko-2, ranked by rating minus twice the deviation; ? marks a provisional rating"
+              >
+                Rating
+              </th>
               <th className="px-3 py-2 text-center">Pts</th>
               <th className="px-3 py-2 text-center">W</th>
               <th className="px-3 py-2 text-center">D</th>
@@ -34,6 +40,21 @@ export function StandingsTable({ standings }: Props) {
               <th className="px-3 py-2 text-center">Illegal</th>
               <th className="px-3 py-2 text-center">TO</th>
               <th className="px-3 py-2 text-center">Resign</th>
+              <th className="px-3 py-2 text-center" title="No-contests: games that ended in an error or were aborted; not scored or rated">
+                NC
+              </th>
+              <th className="px-3 py-2 text-center" title="Legal moves made after being shown legal moves / all legal moves">
+                Help
+              </th>
+              <th className="px-3 py-2 text-center" title="Draw offers made">
+                Offers
+              </th>
+              <th className="px-3 py-2 text-center" title="Analysis tool calls">
+                Tools
+              </th>
+              <th className="px-3 py-2 text-center" title="Actual cost reported by the gateway / pre-game estimate">
+                Cost
+              </th>
             </tr>
           </thead>
           <tbody>
@@ -41,7 +62,7 @@ export function StandingsTable({ standings }: Props) {
               <tr key={row.model} className="odd:bg-arena-card/60">
                 <td className="px-3 py-2 text-slate-400">{idx + 1}</td>
                 <td className="px-3 py-2 font-semibold">{row.model}</td>
-                <td className="px-3 py-2 text-center font-mono">{Math.round(row.rating)}</td>
+                <td className="px-3 py-2 text-center font-mono whitespace-nowrap">{formatRating(row)}</td>
                 <td className="px-3 py-2 text-center font-mono">{row.points.toFixed(1)}</td>
                 <td className="px-3 py-2 text-center">{row.wins}</td>
                 <td className="px-3 py-2 text-center">{row.draws}</td>
@@ -50,6 +71,17 @@ export function StandingsTable({ standings }: Props) {
                 <td className="px-3 py-2 text-center">{row.illegalForfeits}</td>
                 <td className="px-3 py-2 text-center">{row.timeouts}</td>
                 <td className="px-3 py-2 text-center">{row.resignations}</td>
+                <td className="px-3 py-2 text-center text-slate-400">{row.noContests || "-"}</td>
+                <td className="px-3 py-2 text-center font-mono">
+                  {row.assistedMoves + row.unaidedMoves > 0 ? `${row.assistedMoves}/${row.assistedMoves + row.unaidedMoves}` : "-"}
+                </td>
+                <td className="px-3 py-2 text-center">{row.drawOffers || "-"}</td>
+                <td className="px-3 py-2 text-center font-mono">{row.toolCalls || "-"}</td>
+                <td className="px-3 py-2 text-center font-mono">
+                  {row.costUsd || row.estimatedCostUsd
+                    ? `$${row.costUsd.toFixed(4)} / est $${row.estimatedCostUsd.toFixed(4)}`
+                    : "-"}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -1,3 +1,4 @@
+import { isNoContest } from "@/lib/results";
 import { TournamentMatch } from "@/lib/types";
 import clsx from "clsx";
 
@@ -37,11 +38,15 @@ export function TournamentMatches({ matches }: Props) {
                   "rounded-full px-2 py-1 text-xs font-semibold",
                   m.result.winner === "draw"
                     ? "bg-yellow-500/20 text-yellow-200"
+                    : isNoContest(m.result)
+                    ? "bg-white/10 text-slate-300"
                     : "bg-arena-accent/20 text-arena-accent"
                 )}
               >
                 {m.result.winner === "draw"
                   ? "Draw"
+                  : isNoContest(m.result)
+                  ? "No contest"
                   : m.result.winner === "white"
                   ? `${m.white} wins`
                   : `${m.black} wins`}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Chess } from "chess.js";
+import { createAdjudicator, hasAdjudication, knownEndgameResult, validateAdjudication } from "./adjudication";
+
+const ending = (fen: string) => knownEndgameResult(new Chess(fen));
+
+test("scores pawnless endings with a known result", () => {
+  assert.equal(ending("4k3/8/8/8/8/8/8/3QK3 w - - 0 1"), "white");
+  assert.equal(ending("3rk3/8/8/8/8/8/8/4K3 w - - 0 1"), "black");
+  assert.equal(ending("4k3/8/8/8/8/8/8/2B1KN2 w - - 0 1"), "white");
+  assert.equal(ending("4k3/8/8/8/8/8/8/2B1KB2 w - - 0 1"), "white");
+  assert.equal(ending("4k3/8/8/8/8/8/8/1N2K1N1 w - - 0 1"), "draw");
+  assert.equal(ending("4k3/8/8/8/8/8/8/2b1KR2 w - - 0 1"), "draw");
+  assert.equal(ending("1q2k3/8/8/8/8/8/8/3QK3 w - - 0 1"), "draw");
+});
+
+test("leaves other endings to be played out", () => {
+  // Pawns, same-colored bishops, and positions where a capture is available.
+  assert.equal(ending("4k3/4p3/8/8/8/8/8/3QK3 w - - 0 1"), null);
+  assert.equal(ending("4k3/8/8/8/8/8/8/B1B1K3 w - - 0 1"), null);
+  assert.equal(ending("4k3/8/8/8/8/8/3r4/3QK3 w - - 0 1"), null);
+});
+
+test("resign adjudication needs the lead to hold for the set number of plies", () => {
+  const adjudicate = createAdjudicator({ resign: { thresholdCp: 600, plies: 2 } });
+  const queensUp = new Chess("4k3/pppp4/8/8/8/8/PPPP4/QQ2K3 w - - 0 1");
+  assert.equal(adjudicate(queensUp, 20), null);
+  const verdict = adjudicate(queensUp, 20);
+  assert.equal(verdict?.winner, "white");
+  assert.equal(verdict?.reason, "resign-adjudication");
+
+  // Losing the lead starts the count again.
+  const fresh = createAdjudicator({ resign: { thresholdCp: 600, plies: 2 } });
+  assert.equal(fresh(queensUp, 20), null);
+  assert.equal(fresh(new Chess(), 20), null);
+  assert.equal(fresh(queensUp, 21), null);
+});
+
+test("draw adjudication only counts level positions from afterMove on", () => {
+  const adjudicate = createAdjudicator({ draw: { thresholdCp: 100, plies: 2, afterMove: 40 } });
+  const level = new Chess("4k3/pppp4/8/8/8/8/PPPP4/4K3 w - - 0 1");
+  assert.equal(adjudicate(level, 10), null);
+  assert.equal(adjudicate(level, 10), null);
+  assert.equal(adjudicate(level, 40), null);
+  assert.deepEqual(adjudicate(level, 41), {
+    winner: "draw",
+    reason: "draw-adjudication",
+    message: "Adjudicated draw: evaluation within 100cp for 2 plies"
+  });
+});
+
+test("validateAdjudication rejects settings out of range", () => {
+  assert.equal(hasAdjudication({}), false);
+  assert.doesNotThrow(() => validateAdjudication({ resign: { thresholdCp: 600, plies: 8 }, endgames: true }));
+  assert.throws(() => validateAdjudication({ resign: { thresholdCp: 50, plies: 8 } }), /at least 100 centipawns/);
+  assert.throws(() => validateAdjudication({ resign: { thresholdCp: 600, plies: 0 } }), /resign\.plies must be a whole number/);
+  assert.throws(() => validateAdjudication({ draw: { thresholdCp: 300, plies: 4, afterMove: 40 } }), /from 0 to 200/);
+  assert.throws(() => validateAdjudication({ draw: { thresholdCp: 20, plies: 4, afterMove: 0 } }), /afterMove must be/);
+});
@@ -0,0 +1,153 @@
+import { Chess, PieceSymbol } from "chess.js";
+import { searchBestMove } from "./search-engine";
+import { Adjudication, MatchReason, MatchResult } from "./types";
+
+const DEFAULT_RESIGN = { thresholdCp: 600, plies: 8 };
+const DEFAULT_DRAW = { thresholdCp: 20, plies: 12, afterMove: 40 };
+export const DEFAULT_ADJUDICATION: Adjudication = { resign: DEFAULT_RESIGN, draw: DEFAULT_DRAW, endgames: true };
+export const ADJUDICATION_HINT = `Ends games early: ${DEFAULT_RESIGN.thresholdCp}cp ahead for ${DEFAULT_RESIGN.plies} plies wins, within ${DEFAULT_DRAW.thresholdCp}cp for ${DEFAULT_DRAW.plies} plies after move ${DEFAULT_DRAW.afterMove} draws, known pawnless endings are scored`;
+
+// A shallow search is enough to tell a lost position from a close one, and keeps each ply cheap.
+const EVAL_DEPTH = 2;
+const EVAL_NODE_BUDGET = 20_000;
+const MAX_ADJUDICATION_PLIES = 100;
+
+export interface AdjudicationVerdict {
+  winner: MatchResult["winner"];
+  reason: MatchReason;
+  message: string;
+}
+
+function validatePlies(plies: unknown, field: string) {
+  if (!Number.isInteger(plies) || (plies as number) < 1 || (plies as number) > MAX_ADJUDICATION_PLIES) {
+    throw new Error(`${field} must be a whole number from 1 to ${MAX_ADJUDICATION_PLIES}`);
+  }
+}
+
+// Throws with a user-facing message when a rule is missing a setting or has one out of range.
+export function validateAdjudication(adjudication?: Adjudication) {
+  if (adjudication === undefined) return;
+  const { resign, draw } = adjudication;
+  if (resign) {
+    if (!Number.isFinite(resign.thresholdCp) || resign.thresholdCp < 100) {
+      throw new Error("adjudication.resign.thresholdCp must be at least 100 centipawns");
+    }
+    validatePlies(resign.plies, "adjudication.resign.plies");
+  }
+  if (draw) {
+    if (!Number.isFinite(draw.thresholdCp) || draw.thresholdCp < 0 || draw.thresholdCp > 200) {
+      throw new Error("adjudication.draw.thresholdCp must be from 0 to 200 centipawns");
+    }
+    validatePlies(draw.plies, "adjudication.draw.plies");
+    if (!Number.isInteger(draw.afterMove) || draw.afterMove < 1) {
+      throw new Error("adjudication.draw.afterMove must be a positive whole number");
+    }
+  }
+}
+
+export function hasAdjudication(adjudication?: Adjudication): adjudication is Adjudication {
+  return !!(adjudication?.resign || adjudication?.draw || adjudication?.endgames);
+}
+
+// Pieces other than the king, by side, plus the square colors bishops stand on.
+function material(chess: Chess) {
+  const pieces = { w: [] as PieceSymbol[], b: [] as PieceSymbol[] };
+  const bishopSquares = { w: new Set<number>(), b: new Set<number>() };
+  chess.board().forEach((row, rank) =>
+    row.forEach((square, file) => {
+      if (!square || square.type === "k") return;
+      pieces[square.color].push(square.type);
+      if (square.type === "b") bishopSquares[square.color].add((rank + file) % 2);
+    })
+  );
+  return { pieces, bishopSquares };
+}
+
+const isMinor = (piece: PieceSymbol) => piece === "b" || piece === "n";
+
+/**
+ * Result of a few pawnless endings whose outcome is settled theory: a queen or rook (or bishop
+ * pair, or bishop and knight) against a bare king wins, as does a queen against a lone minor;
+ * two knights, minor against minor, rook against rook or minor, and queen against queen draw.
+ * Returns null for anything else, or while the side to move can capture, since a hanging piece
+ * changes the material the verdict is based on.
+ */
+export function knownEndgameResult(chess: Chess): "white" | "black" | "draw" | null {
+  const { pieces, bishopSquares } = material(chess);
+  if (pieces.w.includes("p") || pieces.b.includes("p")) return null;
+  if (chess.moves({ verbose: true }).some((move) => move.captured)) return null;
+
+  const wins = (strong: "w" | "b", weak: "w" | "b") => {
+    const own = [...pieces[strong]].sort().join("");
+    const other = pieces[weak];
+    if (!other.length) {
+      if (own.includes("q") || own.includes("r")) return true;
+      if (own === "bn") return true;
+      return own === "bb" && bishopSquares[strong].size === 2;
+    }
+    return own === "q" && other.length === 1 && isMinor(other[0]);
+  };
+  if (wins("w", "b")) return "white";
+  if (wins("b", "w")) return "black";
+
+  const drawn = (one: PieceSymbol[], two: PieceSymbol[]) => {
+    if (one.length === 2 && one.every((piece) => piece === "n")) return !two.length;
+    if (one.length !== 1 || two.length !== 1) return false;
+    const [mine, theirs] = [one[0], two[0]];
+    if (isMinor(mine)) return isMinor(theirs);
+    return mine === "r" ? theirs === "r" || isMinor(theirs) : mine === "q" && theirs === "q";
+  };
+  return drawn(pieces.w, pieces.b) || drawn(pieces.b, pieces.w) ? "draw" : null;
+}
+
+/**
+ * Tracks one game's evaluations and returns a verdict once a rule is met. Call it after every
+ * legal move; `fullmove` is the move number of the position it is given.
+ */
+export function createAdjudicator(adjudication: Adjudication) {
+  const { resign, draw, endgames } = adjudication;
+  let leader: "white" | "black" | null = null;
+  let leadPlies = 0;
+  let levelPlies = 0;
+
+  return (chess: Chess, fullmove: number): AdjudicationVerdict | null => {
+    if (endgames) {
+      const known = knownEndgameResult(chess);
+      if (known) {
+        return {
+          winner: known,
+          reason: "endgame-adjudication",
+          message: known === "draw" ? "Adjudicated: known drawn ending" : `Adjudicated: known win for ${known}`
+        };
+      }
+    }
+    if (!resign && !draw) return null;
+
+    const search = searchBestMove(chess.fen(), { depth: EVAL_DEPTH, nodeBudget: EVAL_NODE_BUDGET });
+    const whiteScore = chess.turn() === "w" ? search.score : -search.score;
+
+    if (resign) {
+      const ahead = whiteScore >= resign.thresholdCp ? "white" : whiteScore <= -resign.thresholdCp ? "black" : null;
+      leadPlies = ahead && ahead === leader ? leadPlies + 1 : ahead ? 1 : 0;
+      leader = ahead;
+      if (leader && leadPlies >= resign.plies) {
+        return {
+          winner: leader,
+          reason: "resign-adjudication",
+          message: `Adjudicated: ${leader} stayed ${resign.thresholdCp}cp or more ahead for ${leadPlies} plies`
+        };
+      }
+    }
+    if (draw) {
+      levelPlies = fullmove >= draw.afterMove && Math.abs(whiteScore) <= draw.thresholdCp ? levelPlies + 1 : 0;
+      if (levelPlies >= draw.plies) {
+        return {
+          winner: "draw",
+          reason: "draw-adjudication",
+          message: `Adjudicated draw: evaluation within ${draw.thresholdCp}cp for ${levelPlies} plies`
+        };
+      }
+    }
+    return null;
+  };
+}
@@ -0,0 +1,106 @@
+import { Chess } from "chess.js";
+import { jsonSchema, tool, ToolSet } from "ai";
+import { isSquare, moveToUci } from "./chess-utils";
+
+export const DEFAULT_TOOL_CALL_BUDGET = 5;
+const MAX_TOOL_CALL_BUDGET = 20;
+
+export interface AnalysisToolCall {
+  tool: string;
+  input: Record<string, unknown>;
+  output: string;
+}
+
+export interface AnalysisToolset {
+  tools: ToolSet;
+  maxSteps: number; // model round trips allowed, so a spent budget still leaves room to answer
+}
+
+// Throws with a user-facing message when a requested budget is out of range; fills the default.
+export function resolveToolCallBudget(budget?: number) {
+  if (budget === undefined) return DEFAULT_TOOL_CALL_BUDGET;
+  if (!Number.isInteger(budget) || budget < 1 || budget > MAX_TOOL_CALL_BUDGET) {
+    throw new Error(`toolCallBudget must be a whole number from 1 to ${MAX_TOOL_CALL_BUDGET}`);
+  }
+  return budget;
+}
+
+export function listLegalMoves(fen: string, square?: string) {
+  const chess = new Chess(fen);
+  if (!square) return chess.moves({ verbose: true }).map(moveToUci).join(" ") || "No legal moves";
+  if (!isSquare(square)) return `"${square}" is not a square (use a1-h8)`;
+  const moves = chess.moves({ square, verbose: true }).map(moveToUci);
+  return moves.length ? moves.join(" ") : `No legal moves from ${square}`;
+}
+
+export function isSquareAttacked(fen: string, square: string, by?: string) {
+  const chess = new Chess(fen);
+  if (!isSquare(square)) return `"${square}" is not a square (use a1-h8)`;
+  if (by !== undefined && by !== "white" && by !== "black") return `by must be "white" or "black"`;
+  // Defaults to the side not to move, i.e. "can my opponent hit this square?"
+  const attacker = by ?? (chess.turn() === "w" ? "black" : "white");
+  const attacked = chess.isAttacked(square, attacker === "white" ? "w" : "b");
+  return `${square} is ${attacked ? "" : "not "}attacked by ${attacker}`;
+}
+
+export function applyAndShowFen(fen: string, move: string) {
+  const chess = new Chess(fen);
+  try {
+    const result = chess.move(move.trim());
+    const flags = chess.isCheckmate() ? " (checkmate)" : chess.inCheck() ? " (check)" : chess.isDraw() ? " (draw)" : "";
+    return `After ${moveToUci(result)} (${result.san})${flags}: ${chess.fen()}`;
+  } catch {
+    return `${move} is not legal here; nothing was applied`;
+  }
+}
+
+/**
+ * Tools a model may call before answering, all answering for the position it was asked about.
+ * Calls past the budget get a refusal instead of an answer, and every call is reported to `onCall`.
+ */
+export function createAnalysisTools(fen: string, budget: number, onCall: (call: AnalysisToolCall) => void): AnalysisToolset {
+  let used = 0;
+  const run = (name: string, input: Record<string, unknown>, answer: () => string) => {
+    used += 1;
+    const output = used > budget ? `Tool budget of ${budget} calls is used up; submit your move now.` : answer();
+    onCall({ tool: name, input, output });
+    return output;
+  };
+
+  const tools = {
+    list_legal_moves: tool({
+      description: "List legal moves in UCI, for one square or the whole position.",
+      inputSchema: jsonSchema<{ square?: string }>({
+        type: "object",
+        properties: { square: { type: "string", description: "Square of the piece to move, e.g. g1; omit for all moves" } },
+        additionalProperties: false
+      }),
+      execute: async (input) => run("list_legal_moves", input, () => listLegalMoves(fen, input.square))
+    }),
+    is_square_attacked: tool({
+      description: "Check whether a square is attacked. Defaults to attacks by your opponent.",
+      inputSchema: jsonSchema<{ square: string; by?: string }>({
+        type: "object",
+        properties: {
+          square: { type: "string", description: "Square to check, e.g. f7" },
+          by: { type: "string", enum: ["white", "black"], description: "Attacking side" }
+        },
+        required: ["square"],
+        additionalProperties: false
+      }),
+      execute: async (input) => run("is_square_attacked", input, () => isSquareAttacked(fen, input.square, input.by))
+    }),
+    apply_and_show_fen: tool({
+      description: "Try a move on the current position and get the resulting FEN. The game itself is not changed.",
+      inputSchema: jsonSchema<{ move: string }>({
+        type: "object",
+        properties: { move: { type: "string", description: "Move in UCI or SAN, e.g. e2e4" } },
+        required: ["move"],
+        additionalProperties: false
+      }),
+      execute: async (input) => run("apply_and_show_fen", input, () => applyAndShowFen(fen, String(input.move ?? "")))
+    })
+  } satisfies ToolSet;
+
+  return { tools, maxSteps: budget + 2 };
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { budgetOverrun, budgetStatus, formatBudgetLeft, hasBudget, tighterBudget, validateBudget } from "./budget";
+import { isNoContest, isReplayable } from "./results";
+
+test("validateBudget names the field and the cap at fault", () => {
+  assert.doesNotThrow(() => validateBudget(undefined));
+  assert.doesNotThrow(() => validateBudget({ maxUsd: 0.5, maxTokens: 1000 }));
+  assert.throws(() => validateBudget({ maxUsd: 0 }), /^Error: budget\.maxUsd must be a positive dollar amount$/);
+  assert.throws(() => validateBudget({ maxTokens: 10.5 }, "matchBudget"), /matchBudget\.maxTokens must be a positive whole number/);
+});
+
+test("budgetStatus only reports what is left of the caps that are set", () => {
+  assert.equal(hasBudget({}), false);
+  assert.deepEqual(budgetStatus({ maxUsd: 1 }, 0.25, 400), { spentUsd: 0.25, spentTokens: 400, remainingUsd: 0.75 });
+  assert.deepEqual(budgetStatus({ maxTokens: 300 }, 0.25, 400), { spentUsd: 0.25, spentTokens: 400, remainingTokens: 0 });
+  assert.equal(formatBudgetLeft(budgetStatus({ maxUsd: 1, maxTokens: 1000 }, 0.25, 400)), "$0.7500 / 600 tokens");
+});
+
+test("budgetOverrun stops a call that would pass either cap", () => {
+  const budget = { maxUsd: 0.1, maxTokens: 1000 };
+  const status = budgetStatus(budget, 0.08, 900);
+  assert.equal(budgetOverrun(budget, status, 0.01, 100), null);
+  assert.equal(budgetOverrun(budget, status, 0.03, 50), "$0.1 budget (spent $0.0800)");
+  assert.equal(budgetOverrun(budget, status, 0.01, 101), "1000 token budget (spent 900)");
+});
+
+test("tighterBudget keeps the lower of each cap", () => {
+  assert.equal(tighterBudget(undefined, undefined), undefined);
+  assert.deepEqual(tighterBudget({ maxUsd: 1 }, undefined), { maxUsd: 1 });
+  assert.deepEqual(tighterBudget({}, { maxTokens: 500 }), { maxTokens: 500 });
+  assert.deepEqual(tighterBudget({ maxUsd: 1, maxTokens: 500 }, { maxUsd: 0.2 }), { maxUsd: 0.2, maxTokens: 500 });
+});
+
+test("a budget stop is an unrated no-contest that is not replayed", () => {
+  const stopped = { winner: "none", reason: "budget" } as const;
+  assert.equal(isNoContest(stopped), true);
+  assert.equal(isReplayable(stopped), false);
+  assert.equal(isReplayable({ winner: "none", reason: "error" }), true);
+});
@@ -0,0 +1,51 @@
+import { Budget, BudgetStatus } from "./types";
+
+// Throws with a user-facing message when a cap is not a positive number.
+export function validateBudget(budget?: Budget, field = "budget") {
+  if (budget === undefined) return;
+  const { maxUsd, maxTokens } = budget;
+  if (maxUsd !== undefined && (!Number.isFinite(maxUsd) || maxUsd <= 0)) {
+    throw new Error(`${field}.maxUsd must be a positive dollar amount`);
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+    throw new Error(`${field}.maxTokens must be a positive whole number`);
+  }
+}
+
+export function hasBudget(budget?: Budget): budget is Budget {
+  return budget?.maxUsd !== undefined || budget?.maxTokens !== undefined;
+}
+
+export function budgetStatus(budget: Budget, spentUsd: number, spentTokens: number): BudgetStatus {
+  const status: BudgetStatus = { spentUsd, spentTokens };
+  if (budget.maxUsd !== undefined) status.remainingUsd = Math.max(0, budget.maxUsd - spentUsd);
+  if (budget.maxTokens !== undefined) status.remainingTokens = Math.max(0, budget.maxTokens - spentTokens);
+  return status;
+}
+
+// Names the cap that spending this much more would pass, or returns null while it still fits.
+export function budgetOverrun(budget: Budget, status: BudgetStatus, nextUsd: number, nextTokens: number) {
+  if (status.remainingUsd !== undefined && nextUsd > status.remainingUsd) {
+    return `$${budget.maxUsd} budget (spent $${status.spentUsd.toFixed(4)})`;
+  }
+  if (status.remainingTokens !== undefined && nextTokens > status.remainingTokens) {
+    return `${budget.maxTokens} token budget (spent ${status.spentTokens})`;
+  }
+  return null;
+}
+
+// The tighter of each cap, for a game that must fit both its own and the tournament's budget.
+export function tighterBudget(a?: Budget, b?: Budget): Budget | undefined {
+  if (!hasBudget(a)) return b;
+  if (!hasBudget(b)) return a;
+  const pick = (x?: number, y?: number) => (x === undefined ? y : y === undefined ? x : Math.min(x, y));
+  return { maxUsd: pick(a.maxUsd, b.maxUsd), maxTokens: pick(a.maxTokens, b.maxTokens) };
+}
+
+// "$0.1234 / 5000 tokens" for whichever caps the budget has.
+export function formatBudgetLeft(status: BudgetStatus) {
+  const parts = [];
+  if (status.remainingUsd !== undefined) parts.push(`$${status.remainingUsd.toFixed(4)}`);
+  if (status.remainingTokens !== undefined) parts.push(`${status.remainingTokens} tokens`);
+  return parts.join(" / ");
+}
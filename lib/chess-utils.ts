@@ -1,4 +1,4 @@
-import { Chess, Color, PieceSymbol, Square } from "chess.js";
+import { Chess, Color, Move, PieceSymbol, Square, validateFen } from "chess.js";
 
 const files = ["a", "b", "c", "d", "e", "f", "g", "h"];
 
@@ -33,6 +33,42 @@ export function parseUciMove(raw: string):
   return { from, to, promotion };
 }
 
+export function moveToUci(move: Pick<Move, "from" | "to" | "promotion">) {
+  return `${move.from}${move.to}${move.promotion ?? ""}`;
+}
+
+/**
+ * Builds the starting board for a match from an optional FEN or PGN prefix. Throws with a
+ * user-facing message when the input is invalid or the position is already finished.
+ */
+export function loadStartPosition(startFen?: string, startPgn?: string) {
+  const fen = startFen?.trim();
+  const pgn = startPgn?.trim();
+  if (fen && pgn) throw new Error("Provide either startFen or startPgn, not both");
+
+  const chess = new Chess();
+  if (fen) {
+    const validation = validateFen(fen);
+    if (!validation.ok) throw new Error(`Invalid startFen: ${validation.error}`);
+    chess.load(fen);
+  } else if (pgn) {
+    try {
+      chess.loadPgn(pgn);
+    } catch (err: any) {
+      throw new Error(`Invalid startPgn: ${err?.message ?? err}`);
+    }
+  }
+  if (chess.isGameOver()) throw new Error("Start position is already game over");
+  return chess;
+}
+
+// Treats free-form board setup text as a FEN when it validates as one, otherwise as a PGN prefix.
+export function parseStartInput(text: string): { startFen?: string; startPgn?: string } {
+  const trimmed = text.trim();
+  if (!trimmed) return {};
+  return validateFen(trimmed).ok ? { startFen: trimmed } : { startPgn: trimmed };
+}
+
 export function isSquare(value: string): value is Square {
   return /^[a-h][1-8]$/.test(value);
 }
@@ -48,7 +84,7 @@ function squareToIndex(square: Square) {
   return { rank, file };
 }
 
-function boardToFen(board: ReturnType<Chess["board"]>) {
+export function boardToFen(board: ReturnType<Chess["board"]>) {
   return board
     .map((rank) => {
       let empty = 0;
@@ -94,5 +130,17 @@ export function applyChaosMove(
   const nextFullmove = color === "b" ? fullmoveNumber + 1 : fullmoveNumber;
 
   const nextFen = `${placement} ${nextTurn} - - 0 ${nextFullmove}`;
-  return { fen: nextFen, san: `${uci.from}${uci.to}${promotion ?? ""}` };
+  return { fen: nextFen, uci: moveToUci(uci), san: equivalentSan(fen, uci, placement) };
+}
+
+// SAN for a teleport that leaves the board exactly as a legal move would, or undefined for a real
+// teleport (castling and en passant move a second piece, so those never match).
+function equivalentSan(fen: string, uci: { from: Square; to: Square; promotion?: PieceSymbol }, placement: string) {
+  try {
+    const chess = new Chess(fen);
+    const move = chess.move(uci);
+    return chess.fen().split(" ")[0] === placement ? move.san : undefined;
+  } catch {
+    return undefined;
+  }
 }
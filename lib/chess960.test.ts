@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Chess } from "chess.js";
+import {
+  applyChess960Castling,
+  chess960BackRank,
+  chess960PositionFromSeed,
+  chess960StartFen,
+  detectCastling,
+  initialCastlingRights,
+  isChess960Position,
+  toShredderFen,
+  updateCastlingRights,
+  validateVariantOptions
+} from "./chess960";
+
+test("back ranks follow Scharnagl's numbering", () => {
+  assert.equal(chess960BackRank(518), "RNBQKBNR");
+  assert.equal(chess960BackRank(0), "BBQNNRKR");
+  assert.equal(chess960BackRank(959), "RKRNNQBB");
+  assert.equal(chess960StartFen(518), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1");
+  assert.throws(() => chess960BackRank(960), /0-959/);
+});
+
+test("every position puts the king between its rooks and the bishops on opposite colors", () => {
+  for (let position = 0; position < 960; position++) {
+    const rank = chess960BackRank(position);
+    const bishops = [...rank].flatMap((piece, file) => (piece === "B" ? [file] : []));
+    assert.equal(bishops.length, 2);
+    assert.notEqual(bishops[0] % 2, bishops[1] % 2);
+    assert.ok(rank.indexOf("R") < rank.indexOf("K") && rank.indexOf("K") < rank.lastIndexOf("R"), rank);
+  }
+});
+
+test("a seed always maps to the same position", () => {
+  const position = chess960PositionFromSeed(4242);
+  assert.ok(isChess960Position(position));
+  assert.equal(chess960PositionFromSeed(4242), position);
+});
+
+test("Shredder-FEN names the files of the rooks that may still castle", () => {
+  const standard = initialCastlingRights(518);
+  assert.equal(toShredderFen(chess960StartFen(518), standard), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAha - 0 1");
+  assert.equal(toShredderFen(chess960StartFen(0), initialCastlingRights(0)), "bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1");
+
+  const afterKingMove = updateCastlingRights(standard, "e1", "e2", "white");
+  assert.equal(toShredderFen(chess960StartFen(518), afterKingMove), "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w ha - 0 1");
+  const afterRookCaptured = updateCastlingRights(afterKingMove, "b7", "a8", null);
+  assert.deepEqual(afterRookCaptured.black, { kingside: "h8" });
+  assert.equal(toShredderFen(chess960StartFen(518), { white: {}, black: {} }).split(" ")[2], "-");
+});
+
+test("detectCastling reads O-O, king-takes-rook and king-to-g/c notation", () => {
+  const rights = initialCastlingRights(0); // rooks on f1 and h1, king on g1
+  const chess = new Chess("1k6/8/8/8/8/8/8/5RKR w - - 0 1");
+  assert.equal(detectCastling(chess, "0-0", rights), "kingside");
+  assert.equal(detectCastling(chess, "O-O-O+", rights), "queenside");
+  assert.equal(detectCastling(chess, "g1f1", rights), "queenside");
+  assert.equal(detectCastling(chess, "g1h1", rights), "kingside");
+  // An ordinary king move is never read as castling.
+  assert.equal(detectCastling(chess, "g1g2", rights), null);
+
+  const standard = new Chess("r3k2r/8/8/8/8/8/8/R3K2R w - - 0 1");
+  assert.equal(detectCastling(standard, "e1g1", initialCastlingRights(518)), "kingside");
+  assert.equal(detectCastling(standard, "e1c1", initialCastlingRights(518)), "queenside");
+});
+
+test("castling lands the king on g/c and the rook on f/d whatever their start files", () => {
+  const rights = initialCastlingRights(0);
+  const chess = new Chess("1k6/8/8/8/8/8/8/5RKR w - - 0 1");
+  assert.deepEqual(applyChess960Castling(chess, rights, "queenside"), {
+    fen: "1k6/8/8/8/8/8/8/2KR3R b - - 1 1",
+    san: "O-O-O",
+    uci: "g1f1"
+  });
+  // The kingside rook would land on f1, where the other rook stands.
+  assert.deepEqual(applyChess960Castling(chess, rights, "kingside"), { error: "Castling path is blocked" });
+});
+
+test("castling is refused through an attacked square or without rights", () => {
+  const rights = initialCastlingRights(518);
+  const attacked = new Chess("4kr2/8/8/8/8/8/8/R3K2R w - - 0 1");
+  assert.deepEqual(applyChess960Castling(attacked, rights, "kingside"), {
+    error: "King would pass through or land on an attacked square"
+  });
+  const queenside = applyChess960Castling(attacked, rights, "queenside");
+  assert.ok("fen" in queenside && queenside.fen.startsWith("4kr2/8/8/8/8/8/8/2KR3R b"));
+  assert.deepEqual(applyChess960Castling(attacked, { white: {}, black: {} }, "queenside"), {
+    error: "No queenside castling rights left"
+  });
+});
+
+test("validateVariantOptions rejects settings a route cannot honor", () => {
+  assert.doesNotThrow(() => validateVariantOptions({ variant: "chess960", chess960Seed: 7 }));
+  assert.throws(() => validateVariantOptions({ variant: "crazyhouse" }), /Unknown variant: crazyhouse/);
+  assert.throws(() => validateVariantOptions({ chess960Seed: 1.5 }), /chess960Seed must be an integer/);
+  assert.throws(() => validateVariantOptions({ variant: "chess960", startFen: "8/8/8/8/8/8/8/8 w - - 0 1" }), /remove startFen/);
+});
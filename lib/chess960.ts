@@ -0,0 +1,237 @@
+import { Chess, Color, Square } from "chess.js";
+import { boardToFen, parseUciMove } from "./chess-utils";
+
+export type CastleSide = "kingside" | "queenside";
+type Side = "white" | "black";
+
+// Rook start squares that may still castle, per side. chess.js only knows standard castling,
+// so 960 games load with "-" and the match engine tracks these itself.
+export type Chess960CastlingRights = Record<Side, Partial<Record<CastleSide, Square>>>;
+
+export const CHESS960_POSITION_COUNT = 960;
+export const STANDARD_CHESS960_POSITION = 518;
+
+const FILES = "abcdefgh";
+// Scharnagl's table for placing the two knights on the five squares left after bishops and queen.
+const KNIGHT_PLACEMENTS = [
+  [0, 1],
+  [0, 2],
+  [0, 3],
+  [0, 4],
+  [1, 2],
+  [1, 3],
+  [1, 4],
+  [2, 3],
+  [2, 4],
+  [3, 4]
+];
+
+export function isChess960Position(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < CHESS960_POSITION_COUNT;
+}
+
+// White's back rank for a Scharnagl position number (0-959); 518 is the standard RNBQKBNR.
+export function chess960BackRank(position: number) {
+  if (!isChess960Position(position)) throw new Error(`Chess960 position must be 0-959, got ${position}`);
+  const rank: (string | null)[] = Array(8).fill(null);
+  const emptySquares = () => rank.flatMap((piece, index) => (piece ? [] : [index]));
+
+  let n = position;
+  rank[(n % 4) * 2 + 1] = "B";
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = "B";
+  n = Math.floor(n / 4);
+  rank[emptySquares()[n % 6]] = "Q";
+  n = Math.floor(n / 6);
+
+  const [first, second] = KNIGHT_PLACEMENTS[n];
+  const knightSquares = emptySquares();
+  rank[knightSquares[first]] = "N";
+  rank[knightSquares[second]] = "N";
+
+  const [queensideRook, king, kingsideRook] = emptySquares();
+  rank[queensideRook] = "R";
+  rank[king] = "K";
+  rank[kingsideRook] = "R";
+  return rank.join("");
+}
+
+export function chess960StartFen(position: number) {
+  const backRank = chess960BackRank(position);
+  return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w - - 0 1`;
+}
+
+// Maps any integer seed onto a position with mulberry32 so the same seed always replays the same setup.
+export function chess960PositionFromSeed(seed: number) {
+  let t = (Math.trunc(seed) + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return Math.floor(random * CHESS960_POSITION_COUNT);
+}
+
+export function randomChess960Seed() {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+export function initialCastlingRights(position: number): Chess960CastlingRights {
+  const backRank = chess960BackRank(position);
+  const queensideFile = FILES[backRank.indexOf("R")];
+  const kingsideFile = FILES[backRank.lastIndexOf("R")];
+  return {
+    white: { queenside: `${queensideFile}1` as Square, kingside: `${kingsideFile}1` as Square },
+    black: { queenside: `${queensideFile}8` as Square, kingside: `${kingsideFile}8` as Square }
+  };
+}
+
+// Drops rights when the king moves or anything leaves or lands on a castling rook's square.
+export function updateCastlingRights(
+  rights: Chess960CastlingRights,
+  from: Square,
+  to: Square,
+  movedKing: Side | null
+): Chess960CastlingRights {
+  const next: Chess960CastlingRights = { white: { ...rights.white }, black: { ...rights.black } };
+  if (movedKing) next[movedKing] = {};
+  for (const side of ["white", "black"] as const) {
+    for (const castle of ["kingside", "queenside"] as const) {
+      const rookSquare = next[side][castle];
+      if (rookSquare === from || rookSquare === to) delete next[side][castle];
+    }
+  }
+  return next;
+}
+
+// Rewrites the castling field with rook files (Shredder-FEN), e.g. "HAha", so 960 rights survive in text.
+export function toShredderFen(fen: string, rights: Chess960CastlingRights) {
+  const field =
+    [rights.white.kingside, rights.white.queenside]
+      .filter(Boolean)
+      .map((square) => square![0].toUpperCase())
+      .join("") +
+    [rights.black.kingside, rights.black.queenside]
+      .filter(Boolean)
+      .map((square) => square![0])
+      .join("");
+  const parts = fen.split(" ");
+  parts[2] = field || "-";
+  return parts.join(" ");
+}
+
+/**
+ * Recognizes a castling attempt in 960 notation: O-O / O-O-O (or with zeros), the UCI_Chess960
+ * king-takes-own-rook form, or the king moving to g/c when that is not an ordinary king move.
+ */
+export function detectCastling(chess: Chess, raw: string, rights: Chess960CastlingRights): CastleSide | null {
+  const text = raw.trim().replace(/[+#!?]+$/, "");
+  if (/^[o0]-[o0]-[o0]$/i.test(text)) return "queenside";
+  if (/^[o0]-[o0]$/i.test(text)) return "kingside";
+
+  const uci = parseUciMove(text);
+  if (!uci) return null;
+  const piece = chess.get(uci.from);
+  if (!piece || piece.type !== "k" || piece.color !== chess.turn()) return null;
+
+  const own = rights[piece.color === "w" ? "white" : "black"];
+  if (own.kingside === uci.to) return "kingside";
+  if (own.queenside === uci.to) return "queenside";
+
+  const isOrdinaryMove = chess.moves({ square: uci.from, verbose: true }).some((m) => m.to === uci.to);
+  if (isOrdinaryMove) return null;
+  if (uci.to[0] === "g" && own.kingside) return "kingside";
+  if (uci.to[0] === "c" && own.queenside) return "queenside";
+  return null;
+}
+
+function fileRange(a: number, b: number) {
+  const range: number[] = [];
+  for (let file = Math.min(a, b); file <= Math.max(a, b); file++) range.push(file);
+  return range;
+}
+
+/**
+ * Validates and performs a 960 castle, returning the position afterwards or the reason it is
+ * illegal. The king always ends on g/c and the rook on f/d, whatever their start files.
+ */
+export function applyChess960Castling(
+  chess: Chess,
+  rights: Chess960CastlingRights,
+  castle: CastleSide
+): { fen: string; san: string; uci: string } | { error: string } {
+  const turn: Color = chess.turn();
+  const side: Side = turn === "w" ? "white" : "black";
+  const opponent: Color = turn === "w" ? "b" : "w";
+  const rank = turn === "w" ? "1" : "8";
+
+  const rookFrom = rights[side][castle];
+  if (!rookFrom) return { error: `No ${castle} castling rights left` };
+  const kingFile = [...FILES].findIndex((file) => {
+    const piece = chess.get(`${file}${rank}` as Square);
+    return piece?.type === "k" && piece.color === turn;
+  });
+  const rook = chess.get(rookFrom);
+  if (kingFile < 0 || rook?.type !== "r" || rook.color !== turn) return { error: "King or rook is not on its castling square" };
+
+  const kingFrom = `${FILES[kingFile]}${rank}` as Square;
+  const rookFile = FILES.indexOf(rookFrom[0]);
+  const kingToFile = castle === "kingside" ? 6 : 2;
+  const rookToFile = castle === "kingside" ? 5 : 3;
+
+  // Every square either piece crosses must be empty apart from the castling king and rook themselves.
+  const crossed = new Set([...fileRange(kingFile, kingToFile), ...fileRange(rookFile, rookToFile)]);
+  for (const file of crossed) {
+    const square = `${FILES[file]}${rank}` as Square;
+    if (square !== kingFrom && square !== rookFrom && chess.get(square)) return { error: "Castling path is blocked" };
+  }
+  if (chess.inCheck()) return { error: "Cannot castle out of check" };
+  for (const file of fileRange(kingFile, kingToFile)) {
+    if (chess.isAttacked(`${FILES[file]}${rank}` as Square, opponent)) {
+      return { error: "King would pass through or land on an attacked square" };
+    }
+  }
+
+  const board = chess.board();
+  const backRank = board[turn === "w" ? 7 : 0];
+  const king = backRank[kingFile]!;
+  const castlingRook = backRank[rookFile]!;
+  backRank[kingFile] = null;
+  backRank[rookFile] = null;
+  backRank[kingToFile] = { ...king, square: `${FILES[kingToFile]}${rank}` as Square };
+  backRank[rookToFile] = { ...castlingRook, square: `${FILES[rookToFile]}${rank}` as Square };
+  const placement = boardToFen(board);
+
+  // The attack checks ran with the castling rook still in place, so confirm the king is safe afterwards.
+  if (new Chess(`${placement} ${turn} - - 0 1`).inCheck()) return { error: "King would be in check after castling" };
+
+  const [, , , , halfmove, fullmove] = chess.fen().split(" ");
+  const nextFullmove = turn === "b" ? parseInt(fullmove, 10) + 1 : parseInt(fullmove, 10);
+  const fen = `${placement} ${opponent} - - ${parseInt(halfmove, 10) + 1} ${nextFullmove}`;
+
+  const after = new Chess(fen);
+  const suffix = after.isCheckmate() ? "#" : after.inCheck() ? "+" : "";
+  return { fen, san: `${castle === "kingside" ? "O-O" : "O-O-O"}${suffix}`, uci: `${kingFrom}${rookFrom}` };
+}
+
+// Rejects variant settings a route cannot honor, with a user-facing message.
+export function validateVariantOptions(options: {
+  variant?: string;
+  chess960Seed?: unknown;
+  startFen?: string;
+  startPgn?: string;
+}) {
+  const { variant, chess960Seed, startFen, startPgn } = options;
+  if (variant !== undefined && variant !== "standard" && variant !== "chess960") {
+    throw new Error(`Unknown variant: ${variant}`);
+  }
+  if (chess960Seed !== undefined && !Number.isSafeInteger(chess960Seed)) {
+    throw new Error("chess960Seed must be an integer");
+  }
+  if (variant === "chess960" && (startFen?.trim() || startPgn?.trim())) {
+    throw new Error("Chess960 games start from their generated position; remove startFen/startPgn");
+  }
+}
+
+// Each tournament pairing gets its own position; mulberry32 scatters neighbouring seeds.
+export function pairingChess960Seed(baseSeed: number, pairingIndex: number) {
+  return (baseSeed + pairingIndex) | 0;
+}
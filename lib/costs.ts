@@ -1,4 +1,5 @@
-import { ArenaModelOption, MatchMode, MatchMoveEvent } from "./types";
+import { DEFAULT_POSITION } from "chess.js";
+import { ArenaModelOption, MatchMode, MatchMoveEvent, TimeControl, TokenUsage } from "./types";
 import { buildModelPrompt } from "./prompt";
 
 export type TokenEstimate = {
@@ -12,12 +13,24 @@ export function charsToTokens(chars: number) {
   return Math.ceil(chars / 2);
 }
 
+const GATEWAY_OVERHEAD_TOKENS = 350; // buffer for system/routing text and metadata
+const OUTPUT_TOKENS_PER_CALL = 8; // UCI with promotion plus tiny margin
+
+// Rough usage of one call with this prompt, for budgets to look ahead before a model has replied.
+export function estimateCallUsage(prompt: string): TokenUsage {
+  return {
+    inputTokens: charsToTokens(prompt.length) + GATEWAY_OVERHEAD_TOKENS,
+    outputTokens: OUTPUT_TOKENS_PER_CALL,
+    cachedInputTokens: 0
+  };
+}
+
 export function estimateTokens(
   moves: MatchMoveEvent[],
   fen: string,
   activeColor: "white" | "black",
   mode: MatchMode,
-  clockInfo?: { clockMsRemaining?: number; initialClockMs?: number }
+  clockInfo?: { clockMsRemaining?: number; timeControl?: TimeControl }
 ) {
   const projectedPlies = Math.max(120, moves.length + 30); // closer to typical game length
   const history = moves.map((m) => m.move);
@@ -38,7 +51,7 @@ export function estimateTokens(
     activeColor,
     mode,
     clockMsRemaining: clockInfo?.clockMsRemaining,
-    initialClockMs: clockInfo?.initialClockMs
+    timeControl: clockInfo?.timeControl
   });
   const promptMid = buildModelPrompt({
     fen,
@@ -46,7 +59,7 @@ export function estimateTokens(
     activeColor,
     mode,
     clockMsRemaining: clockInfo?.clockMsRemaining,
-    initialClockMs: clockInfo?.initialClockMs
+    timeControl: clockInfo?.timeControl
   });
   const promptLate = buildModelPrompt({
     fen,
@@ -54,7 +67,7 @@ export function estimateTokens(
     activeColor,
     mode,
     clockMsRemaining: clockInfo?.clockMsRemaining,
-    initialClockMs: clockInfo?.initialClockMs
+    timeControl: clockInfo?.timeControl
   });
 
   // Use an average of start/mid/late prompts to approximate total prompt cost over time.
@@ -64,9 +77,8 @@ export function estimateTokens(
       charsToTokens(promptLate.length)) /
     3;
 
-  const gatewayOverhead = 350; // buffer for system/routing text and metadata
-  const perCallInput = Math.ceil(avgPromptTokens + gatewayOverhead);
-  const perCallOutput = 8; // UCI with promotion plus tiny margin
+  const perCallInput = Math.ceil(avgPromptTokens + GATEWAY_OVERHEAD_TOKENS);
+  const perCallOutput = OUTPUT_TOKENS_PER_CALL;
 
   const safety = 1.4; // cushion for formatting variance
   const retryPadding = 1.1; // account for occasional retries/timeouts
@@ -92,3 +104,37 @@ export function estimateCost(model: ArenaModelOption | undefined, inputTokens: n
     (outputTokens / 1_000_000) * outRate;
   return cost;
 }
+
+// Per-side estimate for one game from the standard start, to set against what a game really cost.
+export function estimateGameCost(model: ArenaModelOption | undefined, mode: MatchMode) {
+  const { perSide } = estimateTokens([], DEFAULT_POSITION, "white", mode);
+  return estimateCost(model, perSide.input, perSide.output);
+}
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 };
+
+export function usageTokens(usage: TokenUsage) {
+  return usage.inputTokens + usage.outputTokens;
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens
+  };
+}
+
+// Prices reported usage; cached input uses the cache-read rate when the model has one.
+export function actualCost(model: ArenaModelOption | undefined, usage: TokenUsage) {
+  if (!model) return 0;
+  const inRate = model.inputCostPerMTokens ?? 0;
+  const outRate = model.outputCostPerMTokens ?? 0;
+  const cacheRate = model.cacheReadCostPerMTokens ?? inRate;
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  return (
+    ((usage.inputTokens - cached) / 1_000_000) * inRate +
+    (cached / 1_000_000) * cacheRate +
+    (usage.outputTokens / 1_000_000) * outRate
+  );
+}
@@ -0,0 +1,184 @@
+import { DEFAULT_POSITION } from "chess.js";
+import { resolveToolCallBudget } from "./analysis-tools";
+import { estimateCost, estimateTokens } from "./costs";
+import { isOfflineModel, modelOptions } from "./models";
+import { resolveConversationWindow } from "./prompt";
+import { MatchMode, PromptStyle, StoredGameSummary, TimeControl } from "./types";
+
+// Used until a model has stored games to learn from.
+const DEFAULT_GATEWAY_MOVE_MS = 4000;
+const DEFAULT_OFFLINE_MOVE_MS = 50;
+const DEFAULT_GAME_PLIES = 120; // matches the token estimate's projection
+
+// Rough extra wait per move under settings a model has no stored games for.
+const EXPLAIN_SLOWDOWN = 1.5; // a sentence of rationale to write
+const TOOLS_SLOWDOWN = 3; // a few tool round trips before the move
+
+// What the base token estimate leaves out, per call.
+const EXPLAIN_OUTPUT_TOKENS = 40; // the REASON line
+const EXPECTED_TOOL_CALLS = 2; // calls a tool-using model tends to make per move, within its budget
+const TOOL_CALL_OUTPUT_TOKENS = 20;
+const CONVERSATION_TURN_SHARE = 0.25; // a turn plus its reply, next to a full prompt with rules and history
+
+// A stored game as GET /api/games lists it, reduced to what think times are learned from.
+export type PlayedGame = Pick<
+  StoredGameSummary,
+  "white" | "black" | "plies" | "thinkMs" | "promptStyle" | "explain" | "analysisTools"
+>;
+
+// The tournament settings that change how many tokens a game takes and how long replies take.
+export interface ForecastSettings {
+  mode: MatchMode;
+  timeControl?: TimeControl;
+  promptStyle?: PromptStyle;
+  conversationWindow?: number;
+  explain?: boolean;
+  analysisTools?: boolean;
+  toolCallBudget?: number;
+}
+
+export interface ThinkTimes {
+  moveMs: Record<string, number>; // average wait per move, by model, in games played with the same settings
+  anyMoveMs: Record<string, number>; // the same over every stored game, for models with none of those
+  slowdown: number; // scales anyMoveMs and the defaults for the forecast's settings
+  gamePlies?: number; // average length of the stored games
+}
+
+export interface PairingForecast {
+  white: string;
+  black: string;
+  tokens: number;
+  usd: number;
+  durationMs: number;
+}
+
+// Same prompt style, explanations and tools: the settings that change how long a reply takes.
+function playedLike(game: PlayedGame, settings: ForecastSettings) {
+  return (
+    (game.promptStyle ?? "one-shot") === (settings.promptStyle ?? "one-shot") &&
+    !!game.explain === !!settings.explain &&
+    !!game.analysisTools === !!settings.analysisTools
+  );
+}
+
+// Average wait per move, by model, across games that recorded think time.
+function averageMoveMs(games: PlayedGame[]) {
+  const totals: Record<string, { ms: number; moves: number }> = {};
+  for (const { white, black, plies, thinkMs } of games) {
+    if (!thinkMs) continue;
+    const sides = [
+      [white, thinkMs.white, Math.ceil(plies / 2)],
+      [black, thinkMs.black, Math.floor(plies / 2)]
+    ] as const;
+    for (const [model, ms, moves] of sides) {
+      if (!moves) continue;
+      totals[model] = totals[model] ?? { ms: 0, moves: 0 };
+      totals[model].ms += ms;
+      totals[model].moves += moves;
+    }
+  }
+  const moveMs: Record<string, number> = {};
+  for (const [model, total] of Object.entries(totals)) moveMs[model] = total.ms / total.moves;
+  return moveMs;
+}
+
+/**
+ * Learns per-move think times from stored games, preferring games played with the forecast's
+ * settings; a model with none of those falls back to all its games, slowed down for the settings.
+ */
+export function learnThinkTimes(games: PlayedGame[], settings: ForecastSettings): ThinkTimes {
+  const timed = games.filter((game) => game.thinkMs && game.plies);
+  const alike = timed.filter((game) => playedLike(game, settings));
+  const lengths = alike.length ? alike : timed;
+  return {
+    moveMs: averageMoveMs(alike),
+    anyMoveMs: averageMoveMs(timed),
+    slowdown: (settings.explain ? EXPLAIN_SLOWDOWN : 1) * (settings.analysisTools ? TOOLS_SLOWDOWN : 1),
+    gamePlies: lengths.length ? lengths.reduce((sum, game) => sum + game.plies, 0) / lengths.length : undefined
+  };
+}
+
+export function expectedMoveMs(times: ThinkTimes, model: string) {
+  if (times.moveMs[model] !== undefined) return times.moveMs[model];
+  if (isOfflineModel(model)) return times.anyMoveMs[model] ?? DEFAULT_OFFLINE_MOVE_MS;
+  return (times.anyMoveMs[model] ?? DEFAULT_GATEWAY_MOVE_MS) * times.slowdown;
+}
+
+// One gateway side's tokens for a game, from the base estimate plus what the settings add.
+function sideTokens(settings: ForecastSettings) {
+  const { perSide, perCall } = estimateTokens([], DEFAULT_POSITION, "white", settings.mode, {
+    timeControl: settings.timeControl
+  });
+  const calls = perSide.input / perCall.input;
+  // Every tool call is another round trip that resends the prompt.
+  const toolCalls = settings.analysisTools
+    ? Math.min(EXPECTED_TOOL_CALLS, resolveToolCallBudget(settings.toolCallBudget))
+    : 0;
+  // Conversation calls resend the last `window` exchanges along with the new turn.
+  const context =
+    settings.promptStyle === "conversation"
+      ? 1 + resolveConversationWindow(settings.conversationWindow) * CONVERSATION_TURN_SHARE
+      : 1;
+  const extraOutput = (settings.explain ? EXPLAIN_OUTPUT_TOKENS : 0) + toolCalls * TOOL_CALL_OUTPUT_TOKENS;
+  return {
+    input: Math.ceil(perSide.input * context * (1 + toolCalls)),
+    output: Math.ceil(perSide.output + calls * extraOutput)
+  };
+}
+
+// Most of its clock a side can spend over `moves` moves before it loses on time.
+function clockAllowanceMs(timeControl: TimeControl, moves: number) {
+  const perMove = (timeControl.incrementSeconds ?? 0) + (timeControl.delaySeconds ?? 0);
+  return (timeControl.baseSeconds + perMove * moves) * 1000;
+}
+
+/**
+ * Expected spend and length of one game from the standard start under `settings`. Tokens and
+ * dollars come from the usual estimate adjusted for the settings (offline sides cost nothing);
+ * duration uses learned think times and game length, capped by the clock in timed games.
+ */
+export function forecastPairing(
+  white: string,
+  black: string,
+  settings: ForecastSettings,
+  times: ThinkTimes
+): PairingForecast {
+  const perSide = sideTokens(settings);
+  let tokens = 0;
+  let usd = 0;
+  for (const model of [white, black]) {
+    if (isOfflineModel(model)) continue;
+    tokens += perSide.input + perSide.output;
+    usd += estimateCost(modelOptions.find((m) => m.value === model), perSide.input, perSide.output);
+  }
+  const plies = times.gamePlies ?? DEFAULT_GAME_PLIES;
+  const sideMs = (model: string, moves: number) => {
+    const ms = moves * expectedMoveMs(times, model);
+    return settings.timeControl ? Math.min(ms, clockAllowanceMs(settings.timeControl, moves)) : ms;
+  };
+  const durationMs = sideMs(white, Math.ceil(plies / 2)) + sideMs(black, Math.floor(plies / 2));
+  return { white, black, tokens, usd, durationMs };
+}
+
+/**
+ * Wall-clock time to play `durations` in order on `parallel` lanes, each game taking the lane that
+ * frees up first. `busyMs` holds what is left of games already running.
+ */
+export function scheduleMs(durations: number[], parallel: number, busyMs: number[] = []) {
+  const lanes = [...busyMs];
+  while (lanes.length < parallel) lanes.push(0);
+  for (const duration of durations) {
+    const next = lanes.indexOf(Math.min(...lanes));
+    lanes[next] += duration;
+  }
+  return Math.max(0, ...lanes);
+}
+
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours) return `${hours}h ${minutes}m`;
+  return minutes ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getGame, listGames, parseGameQuery, readGames, recomputeRatings, saveGame } from "./game-store";
+import { withRatingSnapshots } from "./ratings";
+import { MatchMode, MatchResult, TimeControl } from "./types";
+
+// The test setup points ARENA_DATA_DIR at a fresh directory, so the store starts empty.
+function played(white: string, black: string, winner: MatchResult["winner"], mode: MatchMode = "strict", timeControl?: TimeControl) {
+  const result: MatchResult = {
+    winner,
+    reason: winner === "none" ? "budget" : winner === "draw" ? "threefold" : "checkmate",
+    moves: ["e2e4", "e7e5"],
+    pgn: "",
+    illegalCounts: { white: 0, black: 0 },
+    finalFen: "",
+    thinkMs: { white: 1200, black: 800 }
+  };
+  if (timeControl) result.timeControl = timeControl;
+  return { white, black, mode, source: "match" as const, result };
+}
+
+test("saved games come back in order with ids and rating snapshots", async () => {
+  assert.deepEqual(await readGames(), []);
+  const first = await saveGame(played("a", "b", "white"));
+  const second = await saveGame(played("b", "a", "draw"));
+  const stopped = await saveGame(played("a", "b", "none"));
+  assert.ok(first.id && first.id !== second.id);
+  assert.equal(first.ratings?.pool, "strict:untimed");
+  assert.deepEqual(second.ratings?.black.before, first.ratings?.white.after);
+  assert.equal(stopped.ratings, undefined);
+
+  const stored = await readGames();
+  assert.deepEqual(stored.map((g) => g.id), [first.id, second.id, stopped.id]);
+  assert.deepEqual(await getGame(second.id), second);
+});
+
+test("snapshots written one save at a time match a replay of the store", async () => {
+  await Promise.all([
+    saveGame(played("c", "a", "black", "bullet", { baseSeconds: 60 })),
+    saveGame(played("a", "c", "white", "bullet", { baseSeconds: 60 })),
+    saveGame(played("b", "c", "draw"))
+  ]);
+  const stored = await readGames();
+  // Through JSON, as the store has it: unrated games carry no ratings key at all.
+  assert.deepEqual(stored, JSON.parse(JSON.stringify(withRatingSnapshots(stored))));
+});
+
+test("recomputing rewrites every snapshot under the new system", async () => {
+  const before = await readGames();
+  assert.deepEqual(await recomputeRatings("elo"), { system: "elo", games: before.length, rated: 5 });
+  const after = await readGames();
+  assert.deepEqual(after.map((g) => g.id), before.map((g) => g.id));
+  assert.ok(after.every((g) => !g.ratings || g.ratings.system === "elo"));
+
+  // Later saves keep using the recomputed system.
+  const next = await saveGame(played("a", "b", "black"));
+  assert.equal(next.ratings?.system, "elo");
+  await recomputeRatings("glicko2");
+});
+
+test("listGames filters, orders newest first and summarizes", async () => {
+  const all = await listGames();
+  assert.equal(all.length, 7);
+  assert.ok(all[0].playedAt >= all[all.length - 1].playedAt);
+  assert.equal(all[0].plies, 2);
+  assert.deepEqual(all[0].thinkMs, { white: 1200, black: 800 });
+
+  assert.equal((await listGames({ model: "c" })).length, 3);
+  assert.equal((await listGames({ mode: "bullet" })).length, 2);
+  assert.equal((await listGames({ pool: "bullet:bullet" })).length, 2);
+  assert.equal((await listGames({ reason: "budget" })).length, 1);
+  assert.equal((await listGames({ limit: 2 })).length, 2);
+  assert.equal((await listGames({ from: Date.now() + 60_000 })).length, 0);
+});
+
+test("parseGameQuery reads filters and rejects bad values", () => {
+  const query = parseGameQuery(
+    new URLSearchParams({ model: "a", mode: "chaos", reason: "budget", pool: "chaos:blitz", from: "2024-05-01", to: "2024-05-01", limit: "10" })
+  );
+  assert.equal(query.model, "a");
+  assert.equal(query.mode, "chaos");
+  assert.equal(query.pool, "chaos:blitz");
+  assert.equal(query.to! - query.from!, 24 * 60 * 60 * 1000 - 1);
+  assert.equal(query.limit, 10);
+
+  assert.throws(() => parseGameQuery(new URLSearchParams({ mode: "blitz" })), /mode must be one of strict, chaos, bullet/);
+  assert.throws(() => parseGameQuery(new URLSearchParams({ reason: "boredom" })), /Unknown reason: boredom/);
+  assert.throws(() => parseGameQuery(new URLSearchParams({ pool: "strict" })), /Unknown rating pool: strict/);
+  assert.throws(() => parseGameQuery(new URLSearchParams({ from: "yesterday" })), /from must be a date/);
+  assert.throws(() => parseGameQuery(new URLSearchParams({ limit: "501" })), /limit must be a whole number from 1 to 500/);
+});
@@ -0,0 +1,190 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { log } from "./log";
+import { MATCH_MODES } from "./match-engine";
+import { TERMINATIONS } from "./pgn";
+import { createPoolRatings, isRatingPool, ratingPool, snapshotSystem, withRatingSnapshots } from "./ratings";
+import { MatchMode, MatchReason, RatingPool, RatingSystem, StoredGame, StoredGameSummary } from "./types";
+
+// One JSON line per finished game, appended as games end so a crash loses at most the game in flight.
+const DATA_DIR = process.env.ARENA_DATA_DIR || path.join(process.cwd(), "data");
+const GAMES_FILE = path.join(DATA_DIR, "games.jsonl");
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export interface GameQuery {
+  model?: string; // either side
+  mode?: MatchMode;
+  reason?: MatchReason;
+  pool?: RatingPool;
+  from?: number; // playedAt bounds, inclusive
+  to?: number;
+  limit?: number;
+}
+
+// Appends are chained so two games finishing together never interleave their lines.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+// Ratings as of the newest stored game, so a save only rates its own game. Replayed from the store
+// on the first save and replaced by recomputeRatings; only touched inside the write queue.
+let poolRatings: ReturnType<typeof createPoolRatings> | null = null;
+
+async function currentPoolRatings() {
+  if (!poolRatings) {
+    const history = await readGames();
+    const pools = createPoolRatings(snapshotSystem(history));
+    withRatingSnapshots(history, pools);
+    poolRatings = pools;
+  }
+  return poolRatings;
+}
+
+/**
+ * Stores a finished game and returns it with its id and, when rated, its rating snapshot under
+ * the system the stored snapshots use. A failed write is logged and otherwise ignored: the game
+ * has been played and streamed either way.
+ */
+export function saveGame(game: Omit<StoredGame, "id" | "playedAt" | "ratings">): Promise<StoredGame> {
+  let stored: StoredGame = { id: randomUUID(), playedAt: Date.now(), ...game };
+  const write = pendingWrite.then(async () => {
+    try {
+      stored = { ...stored, ratings: (await currentPoolRatings()).rate(stored) };
+    } catch (err) {
+      log.error("[GameStore]", `storing game ${stored.id} without a rating snapshot`, err);
+    }
+    try {
+      await mkdir(DATA_DIR, { recursive: true });
+      await appendFile(GAMES_FILE, JSON.stringify(stored) + "\n", "utf8");
+    } catch (err) {
+      log.error("[GameStore]", `could not store game ${stored.id}`, err);
+      poolRatings = null; // it counted a game the store does not have
+    }
+  });
+  pendingWrite = write;
+  return write.then(() => stored);
+}
+
+// Every stored game, oldest first; unreadable lines (say, a write cut short) are skipped.
+export async function readGames(): Promise<StoredGame[]> {
+  let text: string;
+  try {
+    text = await readFile(GAMES_FILE, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  const games: StoredGame[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      games.push(JSON.parse(line));
+    } catch {
+      log.warn("[GameStore]", "skipped an unreadable line");
+    }
+  }
+  return games;
+}
+
+/**
+ * Replays every stored game under `system` and rewrites the store with fresh rating snapshots, for
+ * after the rating settings change. Waits for pending appends; unreadable lines are dropped.
+ */
+export function recomputeRatings(system: RatingSystem) {
+  const run = pendingWrite.then(async () => {
+    const pools = createPoolRatings(system);
+    const games = withRatingSnapshots(await readGames(), pools);
+    if (games.length) {
+      // Written aside and renamed over the store so a crash never leaves it half written.
+      const staging = `${GAMES_FILE}.tmp`;
+      await writeFile(staging, games.map((g) => JSON.stringify(g) + "\n").join(""), "utf8");
+      await rename(staging, GAMES_FILE);
+    }
+    poolRatings = pools;
+    return { system, games: games.length, rated: games.filter((g) => g.ratings).length };
+  });
+  pendingWrite = run.catch(() => undefined);
+  return run;
+}
+
+function parseDate(value: string, field: string, endOfDay: boolean) {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`${field} must be a date such as 2024-05-01`);
+  // A bare date as the upper bound covers that whole day.
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+// Reads GET /api/games filters; throws with a user-facing message on a bad value.
+export function parseGameQuery(params: URLSearchParams): GameQuery {
+  const query: GameQuery = {};
+  const model = params.get("model");
+  if (model) query.model = model;
+  const mode = params.get("mode");
+  if (mode) {
+    if (!MATCH_MODES.includes(mode as MatchMode)) throw new Error(`mode must be one of ${MATCH_MODES.join(", ")}`);
+    query.mode = mode as MatchMode;
+  }
+  const reason = params.get("reason");
+  if (reason) {
+    if (!(reason in TERMINATIONS)) throw new Error(`Unknown reason: ${reason}`);
+    query.reason = reason as MatchReason;
+  }
+  const pool = params.get("pool");
+  if (pool) {
+    if (!isRatingPool(pool)) throw new Error(`Unknown rating pool: ${pool}`);
+    query.pool = pool;
+  }
+  const from = params.get("from");
+  if (from) query.from = parseDate(from, "from", false);
+  const to = params.get("to");
+  if (to) query.to = parseDate(to, "to", true);
+  const limit = params.get("limit");
+  if (limit) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_LIMIT) {
+      throw new Error(`limit must be a whole number from 1 to ${MAX_LIMIT}`);
+    }
+    query.limit = parsed;
+  }
+  return query;
+}
+
+function summarize({ result, ...game }: StoredGame): StoredGameSummary {
+  return {
+    ...game,
+    winner: result.winner,
+    reason: result.reason,
+    plies: result.moves.length,
+    timeControl: result.timeControl,
+    pool: ratingPool(game.mode, result.timeControl),
+    thinkMs: result.thinkMs,
+    promptStyle: result.promptStyle,
+    explain: result.explain,
+    analysisTools: result.toolCalls ? true : undefined
+  };
+}
+
+// Matching games, newest first.
+export async function listGames(query: GameQuery = {}): Promise<StoredGameSummary[]> {
+  const { model, mode, reason, pool, from, to, limit = DEFAULT_LIMIT } = query;
+  const games = await readGames();
+  return games
+    .filter(
+      (game) =>
+        (!model || game.white === model || game.black === model) &&
+        (!mode || game.mode === mode) &&
+        (!reason || game.result.reason === reason) &&
+        (!pool || ratingPool(game.mode, game.result.timeControl) === pool) &&
+        (from === undefined || game.playedAt >= from) &&
+        (to === undefined || game.playedAt <= to)
+    )
+    .reverse()
+    .slice(0, limit)
+    .map(summarize);
+}
+
+export async function getGame(id: string): Promise<StoredGame | undefined> {
+  const games = await readGames();
+  return games.find((game) => game.id === id);
+}
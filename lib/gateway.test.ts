@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { GatewayAuthenticationError, GatewayInvalidRequestError } from "@ai-sdk/gateway";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV2 } from "ai/test";
+import { AnalysisToolCall, createAnalysisTools } from "./analysis-tools";
+import { fetchToolMove, GatewayProvider } from "./gateway";
+
+type StreamOptions = Parameters<MockLanguageModelV2["doStream"]>[0];
+type StreamPart = Awaited<ReturnType<MockLanguageModelV2["doStream"]>>["stream"] extends ReadableStream<infer P> ? P : never;
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+function stream(parts: StreamPart[]) {
+  return { stream: simulateReadableStream<StreamPart>({ chunks: [{ type: "stream-start", warnings: [] }, ...parts] }) };
+}
+
+const textReply = (text: string, inputTokens: number, outputTokens: number) =>
+  stream([
+    { type: "text-start", id: "t" },
+    { type: "text-delta", id: "t", delta: text },
+    { type: "text-end", id: "t" },
+    { type: "finish", finishReason: "stop", usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } }
+  ]);
+
+// Every model id resolves to the one mock, as the gateway would to the named model.
+const providerFor = (model: MockLanguageModelV2) => (() => model) as unknown as GatewayProvider;
+
+test("falls back to text when the gateway refuses tools as an invalid request", async () => {
+  const model = new MockLanguageModelV2({
+    doStream: async (options: StreamOptions) => {
+      if (options.tools?.length) throw new GatewayInvalidRequestError({ message: "tools are not supported", statusCode: 400 });
+      return textReply("e2e4", 10, 2);
+    }
+  });
+  const reply = await fetchToolMove("mock/no-tools", providerFor(model), "Your move", 5000);
+  assert.equal(reply.move, "e2e4");
+  assert.deepEqual(reply.usage, { inputTokens: 10, outputTokens: 2, cachedInputTokens: 0 });
+  assert.equal(model.doStreamCalls.length, 2);
+});
+
+test("other failures are not mistaken for a tool refusal", async () => {
+  const model = new MockLanguageModelV2({
+    doStream: async () => {
+      throw new GatewayAuthenticationError({ message: "Invalid tool key", statusCode: 401 });
+    }
+  });
+  // The SDK rewraps gateway auth errors with setup advice, so match on the name.
+  await assert.rejects(fetchToolMove("mock/any", providerFor(model), "Your move", 5000), { name: "GatewayAuthenticationError" });
+  assert.equal(model.doStreamCalls.length, 1);
+});
+
+test("the refused attempt's finished steps and tool calls still count", async () => {
+  const calls: AnalysisToolCall[] = [];
+  const analysis = createAnalysisTools(START_FEN, 3, (call) => calls.push(call));
+  let step = 0;
+  const model = new MockLanguageModelV2({
+    doStream: async (options: StreamOptions) => {
+      step += 1;
+      if (step === 1) {
+        return stream([
+          { type: "tool-call", toolCallId: "c1", toolName: "list_legal_moves", input: "{}" },
+          { type: "finish", finishReason: "tool-calls", usage: { inputTokens: 30, outputTokens: 5, totalTokens: 35 } }
+        ]);
+      }
+      if (options.tools?.length) throw new GatewayInvalidRequestError({ message: "make_move rejected", statusCode: 400 });
+      return textReply("g1f3", 10, 2);
+    }
+  });
+  const reply = await fetchToolMove("mock/flaky-tools", providerFor(model), "Your move", 5000, false, analysis);
+  assert.equal(reply.move, "g1f3");
+  assert.deepEqual(reply.usage, { inputTokens: 40, outputTokens: 7, cachedInputTokens: 0 });
+  assert.deepEqual(
+    calls.map((call) => call.tool),
+    ["list_legal_moves"]
+  );
+});
@@ -0,0 +1,225 @@
+import { jsonSchema, LanguageModelUsage, ModelMessage, stepCountIs, streamText, tool, ToolSet } from "ai";
+import type { AnalysisToolset } from "./analysis-tools";
+import { addUsage, EMPTY_USAGE } from "./costs";
+import { createGateway, GatewayInvalidRequestError } from "@ai-sdk/gateway";
+import { log } from "./log";
+import type { PlayerReply } from "./players";
+import { parseExplainedReply, parseMakeMoveInput } from "./prompt";
+import { CallFailureKind, TokenUsage } from "./types";
+
+export type GatewayProvider = ReturnType<typeof createGateway>;
+
+export const MOVE_TIMEOUT_MS = parseInt(process.env.MOVE_TIMEOUT_MS ?? "12000", 10);
+
+export function getGatewayKey(override?: string) {
+  const fromRequest = override?.trim();
+  if (fromRequest) return fromRequest;
+  return process.env.AI_GATEWAY_API_KEY || process.env.AI_GATEWAY_TOKEN || process.env.OPENAI_API_KEY;
+}
+
+export const MISSING_KEY_MESSAGE =
+  "Missing AI key. Provide apiKey in the request body or set AI_GATEWAY_API_KEY (preferred) / AI_GATEWAY_TOKEN / OPENAI_API_KEY.";
+
+// Thrown when a call runs past its per-move timeout; the one failure that is the model's fault.
+class MoveTimeoutError extends Error {}
+
+/**
+ * Sorts a failed call into the model timing out or an infrastructure problem. The SDK wraps
+ * exhausted retries in an error whose `lastError` holds the status code.
+ */
+export function classifyCallFailure(err: unknown): CallFailureKind {
+  if (err instanceof MoveTimeoutError) return "timeout";
+  const cause = (err as { lastError?: unknown })?.lastError ?? err;
+  const status = (cause as { statusCode?: number })?.statusCode;
+  const message = cause instanceof Error ? cause.message : String(cause);
+  if (status === 401 || status === 403 || /unauthori[sz]ed|authentication|invalid api key/i.test(message)) return "auth";
+  if (status === 429 || /rate.?limit|too many requests/i.test(message)) return "rate-limit";
+  return "provider";
+}
+
+/**
+ * Whether the gateway refused the request itself as invalid (HTTP 400), which is how it answers
+ * tools sent to a model that cannot take them. Auth, rate-limit and provider failures are not.
+ */
+function isInvalidRequest(err: unknown) {
+  const cause = (err as { lastError?: unknown })?.lastError ?? err;
+  return GatewayInvalidRequestError.isInstance(cause) || (cause as { statusCode?: number })?.statusCode === 400;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// No execute function: the call ends at the tool call and the engine plays the move itself.
+const MOVE_TOOLS = {
+  make_move: tool({
+    description: "Submit your chess move.",
+    inputSchema: jsonSchema<{ move?: string; resign?: boolean; offerDraw?: boolean; acceptDraw?: boolean; comment?: string }>({
+      type: "object",
+      properties: {
+        move: { type: "string", description: "One move in long algebraic UCI, e.g. e2e4 or a7a8q" },
+        resign: { type: "boolean", description: "true to resign instead of moving" },
+        offerDraw: { type: "boolean", description: "true to offer a draw along with this move" },
+        acceptDraw: { type: "boolean", description: "true to accept the draw your opponent offered; move can be left out" },
+        comment: { type: "string", description: "Optional short note on the move" }
+      },
+      additionalProperties: false
+    })
+  })
+} satisfies ToolSet;
+
+interface ModelReply {
+  text: string;
+  toolInputs: unknown[]; // arguments of each make_move call, unvalidated
+  usage: TokenUsage; // all steps and retried attempts of this reply
+}
+
+// Running usage of one move's calls, kept outside fetchReply so a failed attempt's steps still count.
+interface UsageTally {
+  usage: TokenUsage;
+}
+
+const toTokenUsage = (reported: LanguageModelUsage): TokenUsage => ({
+  inputTokens: reported.inputTokens ?? 0,
+  outputTokens: reported.outputTokens ?? 0,
+  cachedInputTokens: reported.cachedInputTokens ?? 0
+});
+
+/**
+ * Streams the full reply, retrying empty replies and provider overloads up to three attempts.
+ * With analysis tools the model may take several steps; only the last step's text and
+ * make_move call count as its answer. Usage adds up every step and every retried attempt in
+ * `spent`, including the finished steps of an attempt that then failed.
+ */
+async function fetchReply(
+  model: string,
+  gatewayProvider: GatewayProvider,
+  prompt: string | ModelMessage[],
+  timeoutMs: number,
+  moveTools?: typeof MOVE_TOOLS,
+  analysis?: AnalysisToolset,
+  attempt = 1,
+  spent: UsageTally = { usage: EMPTY_USAGE }
+): Promise<ModelReply> {
+  const spentBefore = spent.usage;
+  const tools: ToolSet | undefined = moveTools || analysis ? { ...analysis?.tools, ...moveTools } : undefined;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  // streamText reports provider errors here and only rejects with a generic "no output" error.
+  let streamError: unknown;
+
+  try {
+    log.info("[Match][fetchMove]", `model=${model} attempt=${attempt} timeout=${timeoutMs}ms`);
+    log.debug(
+      "[Match][fetchMove]",
+      `prompt (full):\n${typeof prompt === "string" ? prompt : JSON.stringify(prompt, null, 1)}`
+    );
+    const result = await streamText({
+      model: gatewayProvider(model),
+      prompt,
+      tools,
+      stopWhen: stepCountIs(analysis?.maxSteps ?? 1),
+      abortSignal: controller.signal,
+      onStepFinish: ({ usage }) => {
+        spent.usage = addUsage(spent.usage, toTokenUsage(usage));
+      },
+      onError: ({ error }) => {
+        streamError = error;
+      }
+    });
+
+    const trimmed = (await result.text).trim();
+    const toolInputs = moveTools ? (await result.toolCalls).filter((call) => call.toolName === "make_move").map((call) => call.input) : [];
+    if (controller.signal.aborted) throw new MoveTimeoutError(`No reply within ${timeoutMs}ms`);
+    // A step that fails after an earlier one finished leaves the text resolved but empty.
+    if (streamError) throw streamError;
+    // The attempt's total replaces its steps, in case the provider only reported usage at the end.
+    spent.usage = addUsage(spentBefore, toTokenUsage(await result.totalUsage));
+    if (!trimmed && !toolInputs.length) {
+      const reason = `Empty response from model=${model} attempt=${attempt}`;
+      log.warn("[Match][fetchMove]", reason);
+      if (attempt < 3) {
+        const backoff = 800 * attempt + 400;
+        log.warn("[Match][fetchMove]", `Retrying after empty response in ${backoff}ms`);
+        await sleep(backoff);
+        return fetchReply(model, gatewayProvider, prompt, timeoutMs, moveTools, analysis, attempt + 1, spent);
+      }
+      throw new Error("Model returned an empty move");
+    }
+    log.info(
+      "[Match][fetchMove]",
+      `model=${model} response="${trimmed}"${toolInputs.length ? ` make_move=${JSON.stringify(toolInputs[0])}` : ""}`
+    );
+    return { text: trimmed, toolInputs, usage: spent.usage };
+  } catch (caught: any) {
+    if (controller.signal.aborted) {
+      throw caught instanceof MoveTimeoutError ? caught : new MoveTimeoutError(`No reply within ${timeoutMs}ms`);
+    }
+    const err: any = streamError ?? caught;
+    const msg = err?.message || "";
+    const overloaded =
+      msg.toLowerCase().includes("exhausted") ||
+      msg.toLowerCase().includes("overloaded") ||
+      err?.name === "AI_TypeValidationError";
+    if (overloaded && attempt < 3) {
+      const backoff = 1000 * attempt + 500;
+      log.warn("[Match][fetchMove]", `Overload detected, retrying in ${backoff}ms (attempt ${attempt + 1})`);
+      await sleep(backoff);
+      return fetchReply(model, gatewayProvider, prompt, timeoutMs, moveTools, analysis, attempt + 1, spent);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Returns the whole reply; the match engine reads the move out of it (see lib/move-extraction.ts).
+export async function fetchMove(
+  model: string,
+  gatewayProvider: GatewayProvider,
+  prompt: string | ModelMessage[], // a single prompt, or the running conversation in conversation mode
+  timeoutMs = MOVE_TIMEOUT_MS,
+  analysis?: AnalysisToolset
+): Promise<PlayerReply> {
+  const { text, usage } = await fetchReply(model, gatewayProvider, prompt, timeoutMs, undefined, analysis);
+  return { move: text, usage };
+}
+
+// Explain mode: the prompt asks for a MOVE line plus a REASON line, so keep the whole reply.
+export async function fetchExplainedMove(
+  model: string,
+  gatewayProvider: GatewayProvider,
+  prompt: string | ModelMessage[],
+  timeoutMs = MOVE_TIMEOUT_MS,
+  analysis?: AnalysisToolset
+): Promise<PlayerReply> {
+  const { text, usage } = await fetchReply(model, gatewayProvider, prompt, timeoutMs, undefined, analysis);
+  return { ...parseExplainedReply(text), usage };
+}
+
+/**
+ * Tool submission: offers make_move and validates its arguments. A model that answers in text
+ * gets the same text parsing as the other modes, and so does one the gateway refuses tools for:
+ * the move is asked again without tools, and the refused attempt's usage still counts.
+ */
+export async function fetchToolMove(
+  model: string,
+  gatewayProvider: GatewayProvider,
+  prompt: string | ModelMessage[],
+  timeoutMs = MOVE_TIMEOUT_MS,
+  explain = false,
+  analysis?: AnalysisToolset
+): Promise<PlayerReply> {
+  let reply: ModelReply;
+  const spent: UsageTally = { usage: EMPTY_USAGE };
+  try {
+    reply = await fetchReply(model, gatewayProvider, prompt, timeoutMs, MOVE_TOOLS, analysis, 1, spent);
+  } catch (err: any) {
+    if (!isInvalidRequest(err)) throw err;
+    log.warn("[Match][fetchMove]", `model=${model} rejected tools, falling back to text: ${err?.message}`);
+    reply = await fetchReply(model, gatewayProvider, prompt, timeoutMs, undefined, undefined, 1, spent);
+  }
+  const { usage } = reply;
+  if (reply.toolInputs.length) return { ...parseMakeMoveInput(reply.toolInputs[0]), usage };
+  return { ...(explain ? parseExplainedReply(reply.text) : { move: reply.text }), usage };
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { GLICKO2_INITIAL, updateGlicko2 } from "./glicko2";
+
+const near = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected} ± ${tolerance}, got ${actual}`);
+
+test("reproduces Glickman's worked example", () => {
+  // "Example of the Glicko-2 system": a 1500/200 player beats a 1400/30 and loses to 1550/100 and 1700/300.
+  const player = { rating: 1500, deviation: 200, volatility: 0.06 };
+  const next = updateGlicko2(player, [
+    { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+    { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+    { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 }
+  ]);
+  near(next.rating, 1464.06, 0.01);
+  near(next.deviation, 151.52, 0.01);
+  near(next.volatility, 0.05999, 0.00001);
+});
+
+test("an empty period only widens the deviation", () => {
+  const player = { rating: 1620, deviation: 80, volatility: 0.06 };
+  const next = updateGlicko2(player, []);
+  assert.equal(next.rating, player.rating);
+  assert.equal(next.volatility, player.volatility);
+  near(next.deviation, Math.sqrt(80 ** 2 + (0.06 * 173.7178) ** 2), 1e-9);
+});
+
+test("a win against an equal opponent gains as much as the loser drops", () => {
+  const winner = updateGlicko2(GLICKO2_INITIAL, [{ opponent: GLICKO2_INITIAL, score: 1 }]);
+  const loser = updateGlicko2(GLICKO2_INITIAL, [{ opponent: GLICKO2_INITIAL, score: 0 }]);
+  assert.ok(winner.rating > 1500);
+  near(winner.rating - 1500, 1500 - loser.rating, 1e-6);
+  assert.ok(winner.deviation < GLICKO2_INITIAL.deviation);
+});
@@ -0,0 +1,91 @@
+// Glicko-2 as described in Glickman's "Example of the Glicko-2 system" (2013).
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number; // RD: how far the rating may be off
+  volatility: number; // how erratic the model's results have been
+}
+
+export const GLICKO2_INITIAL: Glicko2Rating = { rating: 1500, deviation: 350, volatility: 0.06 };
+// Ratings whose deviation is still above this have too few games to trust.
+export const PROVISIONAL_DEVIATION = 110;
+
+const SCALE = 173.7178; // between the Glicko and Glicko-2 scales
+const TAU = 0.5; // limits how fast volatility can change
+const EPSILON = 0.000001;
+
+export interface Glicko2Game {
+  opponent: Glicko2Rating;
+  score: number; // 1, 0.5 or 0
+}
+
+function g(phi: number) {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expected(mu: number, opponentMu: number, opponentPhi: number) {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+// Step 5 of the paper: the new volatility, found with the Illinois variant of regula falsi.
+function nextVolatility(phi: number, sigma: number, v: number, delta: number) {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k += 1;
+    B = a - k * TAU;
+  }
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * Rates one rating period of `games` against opponents' ratings from before the period. An empty
+ * period only widens the deviation, as it does for a player who sat out.
+ */
+export function updateGlicko2(player: Glicko2Rating, games: Glicko2Game[]): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+  if (!games.length) {
+    return { ...player, deviation: Math.sqrt(phi * phi + sigma * sigma) * SCALE };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of games) {
+    const opponentMu = (opponent.rating - 1500) / SCALE;
+    const opponentPhi = opponent.deviation / SCALE;
+    const e = expected(mu, opponentMu, opponentPhi);
+    vInverse += g(opponentPhi) ** 2 * e * (1 - e);
+    improvement += g(opponentPhi) * (score - e);
+  }
+  const v = 1 / vInverse;
+  const volatility = nextVolatility(phi, sigma, v, v * improvement);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+  return { rating: newMu * SCALE + 1500, deviation: newPhi * SCALE, volatility };
+}
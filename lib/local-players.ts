@@ -0,0 +1,71 @@
+import { Chess, Move, PieceSymbol } from "chess.js";
+import type { MatchPlayer, MoveRequest } from "./players";
+
+// Token a scripted move list uses to stand for an empty reply.
+export const SCRIPT_EMPTY_TOKEN = "_";
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+function toUci(move: Move) {
+  return `${move.from}${move.to}${move.promotion ?? ""}`;
+}
+
+function pickRandom<T>(items: T[]): T | undefined {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function legalMoves(fen: string) {
+  return new Chess(fen).moves({ verbose: true });
+}
+
+function randomMove({ fen }: MoveRequest) {
+  const choice = pickRandom(legalMoves(fen));
+  return choice ? toUci(choice) : "resign";
+}
+
+// Mate if available, otherwise the most valuable capture by the cheapest attacker, otherwise random.
+function greedyCaptureMove({ fen }: MoveRequest) {
+  const candidates = legalMoves(fen);
+  if (!candidates.length) return "resign";
+
+  const score = (move: Move) => {
+    if (move.san.endsWith("#")) return 1000;
+    let value = 0;
+    if (move.captured) value += PIECE_VALUES[move.captured] * 10 - PIECE_VALUES[move.piece];
+    if (move.promotion) value += PIECE_VALUES[move.promotion] * 10;
+    if (move.san.endsWith("+")) value += 1;
+    return value;
+  };
+
+  const best = Math.max(...candidates.map(score));
+  return toUci(pickRandom(candidates.filter((m) => score(m) === best))!);
+}
+
+export function parseScriptedMoves(text: string) {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((token) => (token === SCRIPT_EMPTY_TOKEN ? "" : token));
+}
+
+/**
+ * Offline players that never touch the gateway. `local/scripted` replays the supplied
+ * move list verbatim (illegal and empty entries included) and resigns once it runs out.
+ */
+export function createLocalPlayer(model: string, script: string[] = []): MatchPlayer {
+  switch (model) {
+    case "local/random":
+      return { model, requestMove: async (request) => ({ move: randomMove(request) }) };
+    case "local/greedy-capture":
+      return { model, requestMove: async (request) => ({ move: greedyCaptureMove(request) }) };
+    case "local/scripted": {
+      let cursor = 0;
+      return {
+        model,
+        requestMove: async () => ({ move: cursor < script.length ? script[cursor++] : "resign" })
+      };
+    }
+    default:
+      throw new Error(`Unknown local model: ${model}`);
+  }
+}
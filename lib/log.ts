@@ -0,0 +1,27 @@
+const ANSI = {
+  reset: "\x1b[0m",
+  cyan: "\x1b[36m",
+  yellow: "\x1b[33m",
+  red: "\x1b[31m",
+  magenta: "\x1b[35m"
+} as const;
+
+// ARENA_LOG=silent mutes every scope; the test setup sets it so test output stays readable.
+const silent = () => process.env.ARENA_LOG === "silent";
+
+export const log = {
+  info: (scope: string, message: string) => {
+    if (!silent()) console.log(`${ANSI.cyan}${scope}${ANSI.reset} ${message}`);
+  },
+  warn: (scope: string, message: string) => {
+    if (!silent()) console.warn(`${ANSI.yellow}${scope}${ANSI.reset} ${message}`);
+  },
+  error: (scope: string, message: string, err?: unknown) => {
+    if (silent()) return;
+    if (err) console.error(`${ANSI.red}${scope}${ANSI.reset} ${message}`, err);
+    else console.error(`${ANSI.red}${scope}${ANSI.reset} ${message}`);
+  },
+  debug: (scope: string, message: string) => {
+    if (!silent()) console.log(`${ANSI.magenta}${scope}${ANSI.reset} ${message}`);
+  }
+};
@@ -0,0 +1,824 @@
+import { Chess } from "chess.js";
+import {
+  acceptsDraw,
+  buildConversationSystemPrompt,
+  buildConversationTurn,
+  buildModelPrompt,
+  LegalMoveHint,
+  offersDraw,
+  resolveBoardRepresentations,
+  resolveConversationWindow
+} from "./prompt";
+import { resolveToolCallBudget } from "./analysis-tools";
+import { extractMove } from "./move-extraction";
+import { actualCost, addUsage, EMPTY_USAGE, estimateCallUsage, usageTokens } from "./costs";
+import { budgetOverrun, budgetStatus, hasBudget } from "./budget";
+import { createAdjudicator, hasAdjudication } from "./adjudication";
+import { isOfflineModel, modelOptions, needsGateway } from "./models";
+import { applyChaosMove, loadStartPosition, moveToUci, parseUciMove } from "./chess-utils";
+import {
+  applyChess960Castling,
+  chess960PositionFromSeed,
+  chess960StartFen,
+  Chess960CastlingRights,
+  detectCastling,
+  initialCastlingRights,
+  randomChess960Seed,
+  toShredderFen,
+  updateCastlingRights
+} from "./chess960";
+import { classifyCallFailure, GatewayProvider, MOVE_TIMEOUT_MS } from "./gateway";
+import { log } from "./log";
+import { formatPgn, PgnMove, pgnDate, pgnTimeControl, resultToken, TERMINATIONS } from "./pgn";
+import { chargedMoveMs, resolveTimeControl } from "./time-control";
+import { createPlayer } from "./players";
+import {
+  Adjudication,
+  AssistancePolicy,
+  AssistanceSummary,
+  BoardRepresentation,
+  Budget,
+  BudgetStatus,
+  CallFailure,
+  ExtractionSummary,
+  IllegalMoveSummary,
+  MatchClocks,
+  MoveExtraction,
+  MoveSubmission,
+  MatchMode,
+  MatchResult,
+  MatchStreamEvent,
+  MatchVariant,
+  PromptStyle,
+  TimeControl,
+  TokenUsage
+} from "./types";
+
+export const MAX_PLY = 400;
+export const STRIKE_LIMIT = 3;
+export const MATCH_MODES: MatchMode[] = ["strict", "chaos", "bullet"];
+
+// Throws with a user-facing message when the mode is missing or unknown.
+export function validateMatchMode(mode?: MatchMode) {
+  if (!MATCH_MODES.includes(mode as MatchMode)) {
+    throw new Error(`mode must be one of ${MATCH_MODES.join(", ")}`);
+  }
+}
+
+type Side = "white" | "black";
+
+export interface MatchEngineOptions {
+  whiteModel: string;
+  blackModel: string;
+  mode: MatchMode;
+  clockMinutes?: number;
+  timeControl?: TimeControl;
+  gatewayProvider?: GatewayProvider; // only required when a side is not a local model
+  scriptedMoves?: Partial<Record<Side, string[]>>;
+  startFen?: string;
+  startPgn?: string;
+  variant?: MatchVariant;
+  chess960Seed?: number;
+  explain?: boolean;
+  promptStyle?: PromptStyle;
+  conversationWindow?: number;
+  boardRepresentations?: BoardRepresentation[];
+  assistance?: AssistancePolicy;
+  submission?: MoveSubmission;
+  analysisTools?: boolean;
+  toolCallBudget?: number;
+  moveExtraction?: MoveExtraction;
+  budget?: Budget;
+  adjudication?: Adjudication;
+  signal?: AbortSignal; // the client went away; the game ends as an aborted no-contest
+  maxPly?: number;
+  // PGN Event, Site and Round tags; "AI Chess Arena", "?" and "-" when omitted.
+  event?: string;
+  site?: string;
+  round?: string;
+}
+
+export interface MatchEngineHooks {
+  // Receives every status/move/end event in the order the game produces them.
+  onEvent?: (event: MatchStreamEvent) => void;
+}
+
+// Everything about a game in progress that ends up in its MatchResult.
+export interface MatchRecord {
+  moves: string[];
+  pgnMoves: PgnMove[];
+  pgnTags?: Record<string, string | undefined>; // fixed for the whole game: players, date, mode...
+  illegalCounts: MatchResult["illegalCounts"];
+  illegalMoves?: MatchResult["illegalCounts"]; // every strike of the game, unlike the running illegalCounts
+  chess: Chess;
+  clocks?: MatchClocks;
+  timeControl?: TimeControl;
+  promptStyle?: PromptStyle;
+  explain?: boolean;
+  boardRepresentations?: BoardRepresentation[];
+  assistance?: AssistanceSummary;
+  submission?: MoveSubmission;
+  formatErrors?: MatchResult["formatErrors"];
+  toolCalls?: MatchResult["toolCalls"];
+  moveExtraction?: ExtractionSummary;
+  usage?: MatchResult["usage"];
+  costUsd?: MatchResult["costUsd"];
+  budget?: BudgetStatus;
+  thinkMs?: MatchResult["thinkMs"];
+  drawOffers?: MatchResult["drawOffers"];
+  failure?: CallFailure;
+  adjudication?: Adjudication;
+  lastIllegalMoves?: Partial<Record<Side, IllegalMoveSummary>>;
+  startFen?: string;
+  variant?: MatchVariant;
+  chess960Position?: number;
+}
+
+export function buildResult(winner: MatchResult["winner"], reason: MatchResult["reason"], record: MatchRecord): MatchResult {
+  const {
+    moves,
+    pgnMoves,
+    pgnTags,
+    illegalCounts,
+    illegalMoves,
+    chess,
+    clocks,
+    timeControl,
+    promptStyle,
+    explain,
+    boardRepresentations,
+    assistance,
+    submission,
+    formatErrors,
+    toolCalls,
+    moveExtraction,
+    usage,
+    costUsd,
+    budget,
+    thinkMs,
+    drawOffers,
+    failure,
+    adjudication,
+    lastIllegalMoves,
+    startFen,
+    variant,
+    chess960Position
+  } = record;
+  const headers = {
+    ...pgnTags,
+    Termination: TERMINATIONS[reason],
+    WhiteIllegalMoves: illegalMoves && String(illegalMoves.white),
+    BlackIllegalMoves: illegalMoves && String(illegalMoves.black),
+    // After a teleport the moves no longer replay under standard (or 960) rules.
+    Variant: pgnMoves.some((m) => m.teleport) ? "Chaos" : variant === "chess960" ? "Chess960" : undefined,
+    Chess960Position: chess960Position !== undefined ? String(chess960Position) : undefined,
+    SetUp: startFen ? "1" : undefined,
+    FEN: startFen
+  };
+  return {
+    winner,
+    reason,
+    moves: [...moves],
+    pgn: formatPgn(headers, pgnMoves, resultToken(winner)),
+    illegalCounts: { ...illegalCounts },
+    clocks,
+    timeControl,
+    finalFen: chess.fen(),
+    startFen,
+    variant,
+    chess960Position,
+    promptStyle,
+    explain,
+    boardRepresentations,
+    assistance: assistance && {
+      policy: assistance.policy,
+      assistedMoves: { ...assistance.assistedMoves },
+      unaidedMoves: { ...assistance.unaidedMoves }
+    },
+    submission,
+    formatErrors: formatErrors && { ...formatErrors },
+    toolCalls: toolCalls && { ...toolCalls },
+    moveExtraction: moveExtraction && {
+      extraction: moveExtraction.extraction,
+      rules: { white: { ...moveExtraction.rules.white }, black: { ...moveExtraction.rules.black } }
+    },
+    usage: usage && { white: { ...usage.white }, black: { ...usage.black } },
+    costUsd: costUsd && { ...costUsd },
+    budget: budget && { ...budget },
+    thinkMs: thinkMs && { ...thinkMs },
+    drawOffers: drawOffers && { ...drawOffers },
+    failure,
+    adjudication: adjudication && { ...adjudication },
+    lastIllegalMoves
+  };
+}
+
+function classifyIllegal(chess: Chess, cleaned: string, activeColor: Side) {
+  const parsedUci = parseUciMove(cleaned);
+  if (!parsedUci) return "Could not parse move text";
+
+  const piece = chess.get(parsedUci.from);
+  if (!piece) return `No piece on ${parsedUci.from}`;
+  if (piece.color !== chess.turn()) return `Piece on ${parsedUci.from} is not ${activeColor}`;
+
+  const legalMoves = chess.moves({ verbose: true });
+  const isLegal = legalMoves.some(
+    (m) =>
+      m.from === parsedUci.from &&
+      m.to === parsedUci.to &&
+      (!parsedUci.promotion || m.promotion === parsedUci.promotion)
+  );
+  return isLegal ? "Illegal move in current position" : "Move violates chess rules (blocked/check/etc.)";
+}
+
+// 960 castles that are legal right now, as O-O / O-O-O, since chess.js cannot generate them.
+function legalChess960Castles(chess: Chess, castlingRights: Chess960CastlingRights) {
+  return (["kingside", "queenside"] as const)
+    .filter((castle) => !("error" in applyChess960Castling(chess, castlingRights, castle)))
+    .map((castle) => (castle === "kingside" ? "O-O" : "O-O-O"));
+}
+
+// Every legal move as both UCI and SAN, for lenient extraction to check candidates against.
+function legalMoveTexts(chess: Chess, castlingRights: Chess960CastlingRights | null) {
+  const texts = chess.moves({ verbose: true }).flatMap((m) => [moveToUci(m), m.san]);
+  return castlingRights ? [...texts, ...legalChess960Castles(chess, castlingRights)] : texts;
+}
+
+/**
+ * Legal moves to show after a strike: those of the piece that was just tried, or every legal move
+ * once the ladder reaches strike 2 (also when the tried move names no piece of the mover's).
+ * 960 castles are listed as O-O / O-O-O because chess.js cannot generate them.
+ */
+function buildLegalMoveHint(
+  chess: Chess,
+  castlingRights: Chess960CastlingRights | null,
+  policy: AssistancePolicy,
+  strikes: number,
+  triedMove = ""
+): LegalMoveHint {
+  const tried = parseUciMove(triedMove.trim().toLowerCase());
+  const piece = tried ? chess.get(tried.from) : undefined;
+  const showPiece = policy === "piece" || strikes < 2;
+  const square = showPiece && tried && piece?.color === chess.turn() ? tried.from : undefined;
+  const moves = chess.moves({ square, verbose: true }).map(moveToUci);
+  if (castlingRights && (!square || piece?.type === "k")) moves.push(...legalChess960Castles(chess, castlingRights));
+  return { square, moves };
+}
+
+/**
+ * Plays one full game between two players and resolves with the final result.
+ * Both the streaming match route and the tournament runner go through here so the
+ * strike, chaos and clock rules stay identical everywhere.
+ */
+export async function playMatch(options: MatchEngineOptions, hooks: MatchEngineHooks = {}): Promise<MatchResult> {
+  const {
+    whiteModel,
+    blackModel,
+    mode,
+    gatewayProvider,
+    scriptedMoves,
+    variant = "standard",
+    explain = false,
+    promptStyle = "one-shot",
+    assistance = "off",
+    submission = "text",
+    analysisTools = false,
+    moveExtraction = "strict",
+    maxPly = MAX_PLY
+  } = options;
+  const isConversation = promptStyle === "conversation";
+  const usesTool = submission === "tool";
+  const toolCallBudget = analysisTools ? resolveToolCallBudget(options.toolCallBudget) : undefined;
+  const analysis = toolCallBudget ? { budget: toolCallBudget } : undefined;
+  const boardRepresentations = resolveBoardRepresentations(options.boardRepresentations);
+  const showsSanHistory = boardRepresentations.includes("san-history");
+  const conversationFor = (side: Side) =>
+    isConversation
+      ? {
+          system: buildConversationSystemPrompt({ activeColor: side, mode, variant, explain, submission, toolCallBudget }),
+          window: resolveConversationWindow(options.conversationWindow)
+        }
+      : undefined;
+  const players = {
+    white: createPlayer(whiteModel, {
+      gatewayProvider,
+      script: scriptedMoves?.white,
+      submission,
+      analysis,
+      conversation: conversationFor("white")
+    }),
+    black: createPlayer(blackModel, {
+      gatewayProvider,
+      script: scriptedMoves?.black,
+      submission,
+      analysis,
+      conversation: conversationFor("black")
+    })
+  };
+  const emit = (event: MatchStreamEvent) => hooks.onEvent?.(event);
+
+  const enforcesStrikes = mode === "strict" || mode === "bullet";
+  const timeControl = resolveTimeControl(mode, options.clockMinutes, options.timeControl);
+  const initialClockMs = timeControl ? timeControl.baseSeconds * 1000 : 0;
+  const incrementMs = (timeControl?.incrementSeconds ?? 0) * 1000;
+  const delayMs = (timeControl?.delaySeconds ?? 0) * 1000;
+
+  // chess.js has no 960 castling, so those games load with "-" and the engine tracks rook rights itself.
+  const chess960Position =
+    variant === "chess960" ? chess960PositionFromSeed(options.chess960Seed ?? randomChess960Seed()) : undefined;
+  let castlingRights: Chess960CastlingRights | null =
+    chess960Position !== undefined ? initialCastlingRights(chess960Position) : null;
+  let chess =
+    chess960Position !== undefined
+      ? new Chess(chess960StartFen(chess960Position))
+      : loadStartPosition(options.startFen, options.startPgn);
+  let fen = chess.fen();
+  let fullmove = parseInt(fen.split(" ")[5], 10) || 1;
+  // A PGN prefix counts as played history so prompts and the final PGN include it.
+  const prefix = chess.history({ verbose: true });
+  const moves: string[] = prefix.map(moveToUci);
+  const pgnMoves: PgnMove[] = prefix.map((m) => ({
+    san: m.san,
+    color: m.color === "w" ? "white" : "black",
+    moveNumber: parseInt(m.before.split(" ")[5], 10) || 1
+  }));
+  const startFen = castlingRights ? toShredderFen(fen, castlingRights) : chess.getHeaders().FEN;
+  const illegalCounts = { white: 0, black: 0 };
+  const illegalMoves = { white: 0, black: 0 };
+  const lastIllegal: Record<Side, { moveText?: string; reason?: string } | undefined> = {
+    white: undefined,
+    black: undefined
+  };
+  const lastIllegalMoves: Partial<Record<Side, IllegalMoveSummary>> = {};
+  const clocks = { white: initialClockMs, black: initialClockMs };
+  const assistanceSummary: AssistanceSummary | undefined =
+    assistance !== "off"
+      ? { policy: assistance, assistedMoves: { white: 0, black: 0 }, unaidedMoves: { white: 0, black: 0 } }
+      : undefined;
+  // Unreadable tool-mode replies; they never count as strikes, but too many in a row forfeit.
+  const formatErrors = { white: 0, black: 0 };
+  const formatErrorStreak = { white: 0, black: 0 };
+  const lastFormatError: Partial<Record<Side, string>> = {};
+  const toolCalls = { white: 0, black: 0 };
+  const extractionSummary: ExtractionSummary | undefined =
+    moveExtraction === "lenient" ? { extraction: moveExtraction, rules: { white: {}, black: {} } } : undefined;
+  const usesGateway = needsGateway([whiteModel, blackModel]);
+  const usage: Record<Side, TokenUsage> = { white: EMPTY_USAGE, black: EMPTY_USAGE };
+  const lastReplyUsage: Partial<Record<Side, TokenUsage>> = {};
+  const thinkMs = { white: 0, black: 0 };
+  // The side whose offer stands until the opponent's next reply accepts it or a move declines it.
+  let drawOffer: Side | null = null;
+  const drawOffers = { white: 0, black: 0 };
+  let failure: CallFailure | undefined;
+  // Chaos positions can be missing pieces the evaluation relies on, so they are never adjudicated.
+  const adjudication = hasAdjudication(options.adjudication) && mode !== "chaos" ? options.adjudication : undefined;
+  const adjudicate = adjudication ? createAdjudicator(adjudication) : null;
+  const modelMeta = {
+    white: modelOptions.find((m) => m.value === whiteModel),
+    black: modelOptions.find((m) => m.value === blackModel)
+  };
+  const costOf = (side: Side, spent = usage[side]) => actualCost(modelMeta[side], spent);
+  const pgnTags = {
+    Event: options.event ?? "AI Chess Arena",
+    Site: options.site,
+    Date: pgnDate(Date.now()),
+    Round: options.round ?? "-",
+    White: modelMeta.white?.label ?? whiteModel,
+    Black: modelMeta.black?.label ?? blackModel,
+    Mode: mode,
+    TimeControl: pgnTimeControl(timeControl)
+  };
+  const budget = hasBudget(options.budget) ? options.budget : undefined;
+  const budgetSnapshot = () =>
+    budget &&
+    budgetStatus(budget, costOf("white") + costOf("black"), usageTokens(usage.white) + usageTokens(usage.black));
+  // How many moves each side had seen at its last turn, so conversation turns only carry what is new.
+  const seenMoveCount: Partial<Record<Side, number>> = {};
+
+  const clockSnapshot = (): MatchClocks | undefined =>
+    timeControl ? { whiteMs: clocks.white, blackMs: clocks.black } : undefined;
+  // [%emt] for every move, plus [%clk] once the mover's clock includes the increment.
+  const moveTimes = (side: Side, moveTime: number) => ({
+    elapsedMs: moveTime,
+    clockMs: timeControl ? clocks[side] : undefined
+  });
+
+  const finish = (winner: MatchResult["winner"], reason: MatchResult["reason"]) => {
+    const result = buildResult(winner, reason, {
+      moves,
+      pgnMoves,
+      pgnTags,
+      illegalCounts,
+      illegalMoves,
+      chess,
+      clocks: clockSnapshot(),
+      timeControl,
+      promptStyle: isConversation ? promptStyle : undefined,
+      explain: explain || undefined,
+      boardRepresentations,
+      assistance: assistanceSummary,
+      submission: usesTool ? submission : undefined,
+      formatErrors: usesTool ? formatErrors : undefined,
+      toolCalls: analysis ? toolCalls : undefined,
+      moveExtraction: extractionSummary,
+      usage: usesGateway ? usage : undefined,
+      costUsd: usesGateway ? { white: costOf("white"), black: costOf("black") } : undefined,
+      budget: budgetSnapshot(),
+      thinkMs,
+      drawOffers: drawOffers.white + drawOffers.black ? drawOffers : undefined,
+      failure,
+      adjudication,
+      lastIllegalMoves,
+      startFen,
+      variant: chess960Position !== undefined ? variant : undefined,
+      chess960Position
+    });
+    emit({ type: "end", result });
+    return result;
+  };
+
+  const recordStrike = (color: Side, moveText: string, reason: string, ply: number) => {
+    illegalCounts[color] += 1;
+    illegalMoves[color] += 1;
+    lastIllegal[color] = { moveText, reason };
+    lastIllegalMoves[color] = {
+      by: color,
+      move: moveText || "(empty move)",
+      reason,
+      strikes: illegalCounts[color],
+      ply
+    };
+    return lastIllegalMoves[color]!;
+  };
+
+  emit({
+    type: "status",
+    message: "Match starting",
+    clocks: clockSnapshot()
+  });
+
+  for (let ply = 0; ply < maxPly; ply++) {
+    if (options.signal?.aborted) return finish("none", "aborted");
+    const activeColor: Side = chess.turn() === "w" ? "white" : "black";
+    const opponent: Side = activeColor === "white" ? "black" : "white";
+    // pgnMoves holds the SAN of every entry in moves, chaos moves included.
+    const promptHistory = showsSanHistory ? pgnMoves.map((m) => m.san) : moves;
+    const lastPlayed = pgnMoves[pgnMoves.length - 1];
+    const legalMoveHint =
+      assistance !== "off" && lastIllegal[activeColor]
+        ? buildLegalMoveHint(chess, castlingRights, assistance, illegalCounts[activeColor], lastIllegal[activeColor]?.moveText)
+        : undefined;
+    const promptInput = {
+      fen: castlingRights ? toShredderFen(fen, castlingRights) : fen,
+      history: promptHistory,
+      representations: boardRepresentations,
+      inCheck: chess.inCheck(),
+      opponentLastMove: lastPlayed?.color === opponent ? lastPlayed.san : undefined,
+      activeColor,
+      mode,
+      variant,
+      clockMsRemaining: timeControl ? clocks[activeColor] : undefined,
+      timeControl,
+      explain,
+      submission,
+      toolCallBudget,
+      formatError: lastFormatError[activeColor],
+      drawOffered: drawOffer === opponent,
+      lastMove: lastIllegal[activeColor]
+        ? {
+            wasIllegal: true,
+            reason: lastIllegal[activeColor]?.reason,
+            moveText: lastIllegal[activeColor]?.moveText
+          }
+        : undefined,
+      legalMoveHint
+    };
+    const prompt = buildModelPrompt(promptInput);
+    const seen = seenMoveCount[activeColor];
+    const conversationTurn = isConversation
+      ? buildConversationTurn({ ...promptInput, movesSinceLastTurn: seen === undefined ? undefined : promptHistory.slice(seen) })
+      : undefined;
+
+    // Look ahead one call (this side's last reply, or a prompt-based estimate) so the cap is never passed.
+    const spending = budgetSnapshot();
+    if (budget && spending && !isOfflineModel(players[activeColor].model)) {
+      const next = lastReplyUsage[activeColor] ?? estimateCallUsage(prompt);
+      const overrun = budgetOverrun(budget, spending, costOf(activeColor, next), usageTokens(next));
+      if (overrun) {
+        emit({ type: "status", message: `Stopping before ${activeColor}'s next call would pass the ${overrun}` });
+        return finish("none", "budget");
+      }
+    }
+
+    let rawMove = "";
+    let thought: string | undefined;
+    let offerDraw: boolean | undefined;
+    let acceptDraw: boolean | undefined;
+    let formatError: string | undefined;
+    let replyUsage: TokenUsage | undefined;
+    let fetchErr: unknown = null;
+    const moveStartTime = Date.now();
+    try {
+      // On a clock the clock is the limit; MOVE_TIMEOUT_MS only bounds untimed games.
+      const perMoveTimeout = timeControl ? Math.max(500, clocks[activeColor] + delayMs) : MOVE_TIMEOUT_MS;
+      ({ move: rawMove, thought, offerDraw, acceptDraw, formatError, usage: replyUsage } = await players[activeColor].requestMove({
+        fen,
+        history: moves,
+        activeColor,
+        prompt,
+        conversationTurn,
+        timeoutMs: perMoveTimeout,
+        explain,
+        onToolCall: (call) => {
+          toolCalls[activeColor] += 1;
+          emit({ type: "tool", ply, activeColor, ...call });
+        }
+      }));
+      // A failed call drops its turn from the conversation, so only advance on a reply.
+      seenMoveCount[activeColor] = moves.length;
+      if (replyUsage) {
+        usage[activeColor] = addUsage(usage[activeColor], replyUsage);
+        lastReplyUsage[activeColor] = replyUsage;
+      }
+    } catch (err) {
+      fetchErr = err;
+    }
+    const moveTime = Date.now() - moveStartTime;
+    thinkMs[activeColor] += moveTime;
+
+    if (timeControl) {
+      clocks[activeColor] = Math.max(0, clocks[activeColor] - chargedMoveMs(timeControl, moveTime));
+      if (clocks[activeColor] <= 0) {
+        emit({
+          type: "status",
+          message: `${activeColor} flagged on time (${moveTime}ms used)`,
+          illegalCounts: { ...illegalCounts },
+          clocks: clockSnapshot()
+        });
+        return finish(opponent, "timeout");
+      }
+    }
+
+    if (fetchErr) {
+      const message = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
+      if (!message.toLowerCase().includes("empty move")) {
+        if (options.signal?.aborted) return finish("none", "aborted");
+        const kind = classifyCallFailure(fetchErr);
+        log.error("[Match][error]", `Model call failed (${kind}):`, fetchErr);
+        emit({ type: "status", message: `${activeColor} error: ${message || "Model call failed or timed out"}` });
+        if (kind === "timeout") return finish(opponent, "timeout");
+        // Gateway, auth and rate-limit failures say nothing about the model, so nobody wins.
+        failure = { by: activeColor, kind, message };
+        return finish("none", "error");
+      }
+      rawMove = "";
+      // With a tool to call, saying nothing is a formatting failure rather than an empty move.
+      if (usesTool) formatError = "empty reply";
+    }
+
+    if (acceptDraw || (!usesTool && acceptsDraw(rawMove))) {
+      if (drawOffer === opponent) {
+        emit({ type: "draw-offer", ply, activeColor, action: "accept" });
+        return finish("draw", "agreement");
+      }
+      if (!rawMove.trim()) formatError = "there is no draw offer to accept";
+    }
+
+    if (formatError) {
+      formatErrors[activeColor] += 1;
+      formatErrorStreak[activeColor] += 1;
+      lastFormatError[activeColor] = formatError;
+      log.warn("[Match][format]", `ply=${ply} color=${activeColor} error="${formatError}"`);
+      emit({
+        type: "status",
+        message: `${activeColor} sent an unreadable reply: ${formatError} (${formatErrorStreak[activeColor]} in a row)`,
+        illegalCounts: { ...illegalCounts },
+        clocks: clockSnapshot()
+      });
+      if (formatErrorStreak[activeColor] >= STRIKE_LIMIT) return finish(opponent, "format");
+      continue;
+    }
+    formatErrorStreak[activeColor] = 0;
+    lastFormatError[activeColor] = undefined;
+
+    if (thought) {
+      emit({ type: "thought", ply, activeColor, move: rawMove.trim(), text: thought });
+    }
+
+    if (!rawMove.trim()) {
+      const illegalMove = recordStrike(activeColor, "(empty)", "Model returned an empty move", ply);
+      log.warn("[Match][empty-move]", `ply=${ply} color=${activeColor} strikes=${illegalCounts[activeColor]}`);
+      emit({
+        type: "status",
+        message: `${activeColor} produced an empty move (${illegalCounts[activeColor]} strikes)`,
+        illegalCounts: { ...illegalCounts },
+        clocks: clockSnapshot(),
+        illegalMove
+      });
+      if (enforcesStrikes && illegalCounts[activeColor] >= STRIKE_LIMIT) {
+        return finish(opponent, "illegal");
+      }
+      continue;
+    }
+
+    const extracted = extractMove(
+      rawMove,
+      extractionSummary ? legalMoveTexts(chess, castlingRights) : [],
+      moveExtraction
+    );
+    const moveText = extracted.move;
+    const cleaned = moveText.toLowerCase();
+    if (cleaned === "resign") {
+      emit({
+        type: "move",
+        move: "resign",
+        fen,
+        ply,
+        activeColor,
+        illegalCounts: { ...illegalCounts },
+        clocks: clockSnapshot(),
+        timestamp: moveTime
+      });
+      return finish(opponent, "resignation");
+    }
+
+    let played: { uci: string; san: string } | null = null;
+    let castleError: string | null = null;
+    const castle = castlingRights ? detectCastling(chess, moveText, castlingRights) : null;
+    if (castle && castlingRights) {
+      const castled = applyChess960Castling(chess, castlingRights, castle);
+      log.info("[Match][castle-960]", `ply=${ply} color=${activeColor} move="${moveText}" result=${JSON.stringify(castled)}`);
+      if ("error" in castled) {
+        castleError = castled.error;
+      } else {
+        // Rebuilding drops chess.js history, which is harmless for repetition since castling is irreversible.
+        chess = new Chess(castled.fen);
+        castlingRights = { ...castlingRights, [activeColor]: {} };
+        played = { uci: castled.uci, san: castled.san };
+      }
+    } else {
+      let moveResult = null;
+      try {
+        moveResult = chess.move(moveText, { sloppy: true } as any);
+      } catch (err: any) {
+        log.warn("[Match][legal-check]", `ply=${ply} color=${activeColor} move="${moveText}" error="${err?.message ?? err}"`);
+        moveResult = null;
+      }
+      log.info(
+        "[Match][move-parse]",
+        `ply=${ply} color=${activeColor} raw="${rawMove}" cleaned="${cleaned}" rule=${extracted.rule} result=${
+          moveResult
+            ? JSON.stringify({
+                from: moveResult.from,
+                to: moveResult.to,
+                promotion: moveResult.promotion,
+                san: moveResult.san
+              })
+            : "null"
+        }`
+      );
+      if (moveResult) {
+        played = { uci: moveToUci(moveResult), san: moveResult.san };
+        if (castlingRights) {
+          const movedKing = moveResult.piece === "k" ? activeColor : null;
+          castlingRights = updateCastlingRights(castlingRights, moveResult.from, moveResult.to, movedKing);
+        }
+      }
+    }
+
+    if (!played) {
+      const reason = castleError ?? classifyIllegal(chess, cleaned, activeColor);
+      log.warn("[Match][illegal]", `ply=${ply} color=${activeColor} move="${moveText}" reason="${reason}"`);
+      const illegalMove = recordStrike(activeColor, moveText, reason, ply);
+
+      // Status only for illegal (do not log as a move to keep list aligned)
+      emit({
+        type: "status",
+        message: `${activeColor} played illegal move ${cleaned || "empty"}: ${reason} (${illegalCounts[activeColor]} strikes)`,
+        illegalCounts: { ...illegalCounts },
+        clocks: clockSnapshot(),
+        illegalMove
+      });
+
+      if (mode === "chaos") {
+        const parsedChaos = parseUciMove(cleaned);
+        if (parsedChaos) {
+          const chaos = applyChaosMove(fen, parsedChaos, chess.turn(), fullmove);
+          try {
+            chess = new Chess(chaos.fen);
+          } catch (err: any) {
+            log.error(
+              "[Match][chaos-invalid-fen]",
+              `ply=${ply} color=${activeColor} fen="${chaos.fen}" error="${err?.message ?? err}"`
+            );
+            emit({
+              type: "status",
+              message: `Chaos move produced invalid board: ${err?.message ?? "invalid FEN"}`,
+              illegalCounts: { ...illegalCounts },
+              clocks: clockSnapshot()
+            });
+            return finish(opponent, "illegal");
+          }
+          const displayMoveNum = fullmove;
+          fen = chaos.fen;
+          fullmove = parseInt(fen.split(" ")[5], 10) || fullmove;
+          moves.push(chaos.uci);
+          clocks[activeColor] += incrementMs;
+          pgnMoves.push({
+            san: chaos.san ?? chaos.uci,
+            teleport: !chaos.san || undefined,
+            color: activeColor,
+            moveNumber: displayMoveNum,
+            comment: thought,
+            ...moveTimes(activeColor, moveTime)
+          });
+          // Chaos positions drop castling rights, matching the "-" the standard chaos FEN writes.
+          if (castlingRights) castlingRights = { white: {}, black: {} };
+
+          emit({
+            type: "move",
+            move: chaos.uci,
+            fen,
+            san: chaos.san ?? chaos.uci,
+            displayMoveNum,
+            ply,
+            activeColor,
+            illegalCounts: { ...illegalCounts },
+            clocks: clockSnapshot(),
+            note: "Chaos move executed despite illegality",
+            timestamp: moveTime
+          });
+        }
+      }
+
+      if (enforcesStrikes && illegalCounts[activeColor] >= STRIKE_LIMIT) {
+        return finish(opponent, "illegal");
+      }
+      continue;
+    }
+
+    const moveUci = played.uci;
+    const displayMoveNum = fullmove;
+    moves.push(moveUci);
+    // Fischer increment is earned by completing a move; rejected attempts only cost time.
+    clocks[activeColor] += incrementMs;
+    pgnMoves.push({
+      san: played.san,
+      color: activeColor,
+      moveNumber: displayMoveNum,
+      comment: thought,
+      ...moveTimes(activeColor, moveTime)
+    });
+    fen = chess.fen();
+    fullmove = parseInt(fen.split(" ")[5], 10) || fullmove;
+    illegalCounts[activeColor] = 0;
+    lastIllegal[activeColor] = undefined;
+    if (assistanceSummary) {
+      assistanceSummary[legalMoveHint ? "assistedMoves" : "unaidedMoves"][activeColor] += 1;
+    }
+    if (extractionSummary) {
+      const rules = extractionSummary.rules[activeColor];
+      rules[extracted.rule] = (rules[extracted.rule] ?? 0) + 1;
+    }
+
+    emit({
+      type: "move",
+      move: moveUci,
+      fen,
+      san: played.san,
+      displayMoveNum,
+      ply,
+      activeColor,
+      illegalCounts: { ...illegalCounts },
+      clocks: clockSnapshot(),
+      timestamp: moveTime,
+      extractionRule: extractionSummary ? extracted.rule : undefined,
+      usage: replyUsage,
+      budget: budgetSnapshot()
+    });
+
+    if (chess.isCheckmate()) return finish(activeColor, "checkmate");
+    if (chess.isStalemate()) return finish("draw", "stalemate");
+    if (chess.isThreefoldRepetition()) return finish("draw", "threefold");
+    if (chess.isInsufficientMaterial()) return finish("draw", "insufficient");
+    if (chess.isDraw()) return finish("draw", "fifty-move");
+    const verdict = adjudicate?.(chess, fullmove);
+    if (verdict) {
+      emit({ type: "status", message: verdict.message, clocks: clockSnapshot() });
+      return finish(verdict.winner, verdict.reason);
+    }
+
+    // Playing on declines a standing offer; an offer only counts when it comes with a legal move.
+    if (drawOffer === opponent) {
+      emit({ type: "draw-offer", ply, activeColor, action: "decline" });
+      drawOffer = null;
+    }
+    if (offerDraw || (!usesTool && offersDraw(rawMove))) {
+      drawOffers[activeColor] += 1;
+      drawOffer = activeColor;
+      emit({ type: "draw-offer", ply, activeColor, action: "offer" });
+    }
+  }
+
+  return finish("draw", "max-move");
+}
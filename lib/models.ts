@@ -1,5 +1,23 @@
 import { ArenaModelOption } from "./types";
 
+const LOCAL_MODEL_PREFIX = "local/";
+const ENGINE_MODEL_PREFIX = "engine/";
+
+export const localModelOptions: ArenaModelOption[] = [
+  { label: "Random Mover", value: "local/random", provider: "Local", context: "offline", inputCostPerMTokens: 0, outputCostPerMTokens: 0 },
+  { label: "Greedy Capturer", value: "local/greedy-capture", provider: "Local", context: "offline", inputCostPerMTokens: 0, outputCostPerMTokens: 0 },
+  { label: "Scripted Moves", value: "local/scripted", provider: "Local", context: "offline", inputCostPerMTokens: 0, outputCostPerMTokens: 0 }
+];
+
+export const engineModelOptions: ArenaModelOption[] = [1, 2, 3, 4].map((depth) => ({
+  label: `Alpha-Beta Depth ${depth}`,
+  value: `${ENGINE_MODEL_PREFIX}depth-${depth}`,
+  provider: "Engine",
+  context: "offline",
+  inputCostPerMTokens: 0,
+  outputCostPerMTokens: 0
+}));
+
 export const modelOptions: ArenaModelOption[] = [
   // xAI
   { label: "Grok 4.1 Fast Reasoning", value: "xai/grok-4.1-fast-reasoning", provider: "xAI", context: "2M", inputCostPerMTokens: 0.20, outputCostPerMTokens: 0.50 },
@@ -35,9 +53,41 @@ export const modelOptions: ArenaModelOption[] = [
   { label: "Longcat Flash Chat", value: "meituan/longcat-flash-chat", provider: "Meituan", context: "128K" },
 
   // Meta
-  { label: "Llama 3.1 8B", value: "meta/llama-3.1-8b", provider: "Meta", context: "128K", inputCostPerMTokens: 0.05, outputCostPerMTokens: 0.08 }
+  { label: "Llama 3.1 8B", value: "meta/llama-3.1-8b", provider: "Meta", context: "128K", inputCostPerMTokens: 0.05, outputCostPerMTokens: 0.08 },
+
+  // Local (offline, no gateway calls)
+  ...localModelOptions,
+
+  // Built-in search engine (offline rating anchor)
+  ...engineModelOptions
 ];
 
+export function isLocalModel(value: string) {
+  return value.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+export function isEngineModel(value: string) {
+  return value.startsWith(ENGINE_MODEL_PREFIX);
+}
+
+// Offline players are resolved in-process and never reach the gateway.
+export function isOfflineModel(value: string) {
+  return isLocalModel(value) || isEngineModel(value);
+}
+
+export function isKnownModel(value: string) {
+  return !isOfflineModel(value) || modelOptions.some((m) => m.value === value);
+}
+
+export function needsGateway(models: string[]) {
+  return models.some((m) => !isOfflineModel(m));
+}
+
+export function engineDepth(value: string) {
+  const match = /^engine\/depth-(\d+)$/.exec(value);
+  return match ? parseInt(match[1], 10) : null;
+}
+
 // Helper to get models grouped by provider
 export function getGroupedModels() {
   const groups: Record<string, ArenaModelOption[]> = {};
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Chess } from "chess.js";
+import { extractMove, validateMoveExtraction } from "./move-extraction";
+
+// What the engine passes for a position: every legal move as SAN and as UCI.
+function legalMovesOf(fen?: string) {
+  const chess = new Chess(fen);
+  return chess.moves({ verbose: true }).flatMap((m) => [m.san, `${m.from}${m.to}${m.promotion ?? ""}`]);
+}
+
+const START = legalMovesOf();
+
+test("strict takes the first token as is", () => {
+  assert.deepEqual(extractMove("  e4 because it controls the centre", START), { move: "e4", rule: "first-token" });
+  assert.deepEqual(extractMove("I play **e4**", START, "strict"), { move: "I", rule: "first-token" });
+});
+
+test("lenient prefers a labeled move over moves mentioned in prose", () => {
+  const reply = "After d4 or c4 I considered Nf3.\nFinal move: **e4**";
+  assert.deepEqual(extractMove(reply, START, "lenient"), { move: "e4", rule: "labeled" });
+});
+
+test("lenient reads fenced and bold markup", () => {
+  assert.deepEqual(extractMove("Let me think.\n```\ng1f3\n```", START, "lenient"), { move: "g1f3", rule: "fenced" });
+  assert.deepEqual(extractMove("I will go with `d4`.", START, "lenient"), { move: "d4", rule: "fenced" });
+  assert.deepEqual(extractMove("The best is **Nc3** here.", START, "lenient"), { move: "Nc3", rule: "bold" });
+});
+
+test("lenient keeps the last legal candidate of a rule", () => {
+  assert.deepEqual(extractMove("e2e4 looks fine, but d2d4 is better", START, "lenient"), { move: "d2d4", rule: "uci" });
+  assert.deepEqual(extractMove("Maybe e4, no: d4.", START, "lenient"), { move: "d4", rule: "san" });
+});
+
+test("lenient strips move numbers, punctuation and case", () => {
+  assert.deepEqual(extractMove("1. e4!", START, "lenient"), { move: "e4", rule: "san" });
+  assert.deepEqual(extractMove("E2E4.", START, "lenient"), { move: "e2e4", rule: "single-token" });
+});
+
+test("lenient writes castling as O-O whichever zeros or letters the model used", () => {
+  const fen = "r3k2r/pppq1ppp/2npbn2/2b1p3/2B1P3/2NPBN2/PPPQ1PPP/R3K2R w KQkq - 6 8";
+  const legal = legalMovesOf(fen);
+  assert.deepEqual(extractMove("I castle: 0-0", legal, "lenient"), { move: "O-O", rule: "castling" });
+  assert.deepEqual(extractMove("Long castle o-o-o now", legal, "lenient"), { move: "O-O-O", rule: "castling" });
+});
+
+test("lenient matches SAN with or without a check mark", () => {
+  const fen = "rnbqkbnr/ppp2ppp/8/3pp3/4P3/5Q2/PPPP1PPP/RNB1KBNR w KQkq - 0 3";
+  const legal = legalMovesOf(fen);
+  assert.ok(legal.includes("Qxf7+"));
+  assert.deepEqual(extractMove("Then Qxf7+ wins a pawn", legal, "lenient"), { move: "Qxf7", rule: "san" });
+});
+
+test("lenient falls back to the first move-shaped guess when nothing is legal", () => {
+  assert.deepEqual(extractMove("I would play e5 or Nf6 here", START, "lenient"), { move: "e5", rule: "san" });
+  assert.deepEqual(extractMove("no idea what to do", START, "lenient"), { move: "no", rule: "first-token" });
+});
+
+test("lenient reads a bare resignation", () => {
+  assert.deepEqual(extractMove("I resign.", START, "lenient"), { move: "resign", rule: "first-token" });
+});
+
+test("validateMoveExtraction rejects unknown settings", () => {
+  assert.doesNotThrow(() => validateMoveExtraction(undefined));
+  assert.doesNotThrow(() => validateMoveExtraction("lenient"));
+  assert.throws(() => validateMoveExtraction("loose" as never), /moveExtraction must be one of strict, lenient/);
+});
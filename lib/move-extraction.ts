@@ -0,0 +1,74 @@
+import { ExtractionRule, MoveExtraction } from "./types";
+
+export const MOVE_EXTRACTIONS: MoveExtraction[] = ["strict", "lenient"];
+
+export interface ExtractedMove {
+  move: string; // move text to play; empty when the reply had nothing to read
+  rule: ExtractionRule;
+}
+
+// Throws with a user-facing message when the requested setting is unknown.
+export function validateMoveExtraction(extraction?: MoveExtraction) {
+  if (extraction !== undefined && !MOVE_EXTRACTIONS.includes(extraction)) {
+    throw new Error(`moveExtraction must be one of ${MOVE_EXTRACTIONS.join(", ")}`);
+  }
+}
+
+const SAN_PATTERN = /(?<![\w-])(?:[KQRBN][a-h]?[1-8]?x?[a-h][1-8]|[a-h](?:x[a-h])?[1-8](?:=?[QRBNqrbn])?)[+#]?(?![\w-])/g;
+const UCI_PATTERN = /(?<![\w-])[a-h][1-8][a-h][1-8][qrbn]?(?![\w-])/gi;
+const CASTLING_PATTERN = /(?<![\w-])([O0o])-\1(?:-\1)?(?![\w-])/g;
+const LABEL_PATTERN = /\b(?:best move|final move|move|answer|play)\s*[:=]\s*[*_`"']*([^\s*_`"']+)/gi;
+const RESIGN_PATTERN = /^\W*(?:i\s+)?resign\W*$/i;
+
+const tokens = (text: string) => text.split(/\s+/).filter(Boolean);
+const captures = (text: string, pattern: RegExp) => Array.from(text.matchAll(pattern), (m) => m[1] ?? m[2] ?? "");
+
+// Highest priority first: markup the model used on purpose beats moves mentioned in prose.
+const RULES: Array<[ExtractionRule, (text: string) => string[]]> = [
+  ["single-token", (text) => (/\s/.test(text) ? [] : [text])],
+  ["labeled", (text) => captures(text, LABEL_PATTERN)],
+  ["fenced", (text) => [...captures(text, /```[a-z]*\s*([\s\S]*?)```/gi), ...captures(text, /`([^`]+)`/g)].flatMap(tokens)],
+  ["bold", (text) => captures(text, /\*\*([^*]+)\*\*|__([^_]+)__/g).flatMap(tokens)],
+  ["castling", (text) => Array.from(text.matchAll(CASTLING_PATTERN), (m) => m[0])],
+  ["uci", (text) => Array.from(text.matchAll(UCI_PATTERN), (m) => m[0])],
+  ["san", (text) => Array.from(text.matchAll(SAN_PATTERN), (m) => m[0])]
+];
+
+// Drops move numbers, quotes, trailing punctuation and check marks, and writes castles as O-O.
+function normalizeCandidate(candidate: string) {
+  const stripped = candidate
+    .replace(/^\d+\.+\s*/, "")
+    .replace(/^[^a-z0-9]+/i, "")
+    .replace(/[^a-z0-9]+$/i, "");
+  if (/^([O0o])-\1-\1$/.test(stripped)) return "O-O-O";
+  if (/^([O0o])-\1$/.test(stripped)) return "O-O";
+  return /^[a-h][1-8][a-h][1-8][qrbn]?$/i.test(stripped) ? stripped.toLowerCase() : stripped;
+}
+
+const looksLikeMove = (candidate: string) =>
+  /^(?:O-O(?:-O)?|[a-h][1-8][a-h][1-8][qrbn]?|[KQRBN][a-h]?[1-8]?x?[a-h][1-8]|[a-h](?:x[a-h])?[1-8](?:=?[QRBNqrbn])?)$/.test(candidate);
+
+/**
+ * Reads the move out of a reply. `strict` takes the first whitespace-separated token as is.
+ * `lenient` tries each rule in order and keeps the last candidate that is in `legalMoves`
+ * (UCI and SAN without check marks; models tend to end on their decision). When nothing is
+ * legal it returns the first move-shaped candidate, or the first token, so the strike names
+ * what the model seemed to mean.
+ */
+export function extractMove(text: string, legalMoves: string[], extraction: MoveExtraction = "strict"): ExtractedMove {
+  const trimmed = text.trim();
+  const firstToken = trimmed.split(/\s+/)[0] ?? "";
+  if (extraction === "strict") return { move: firstToken, rule: "first-token" };
+
+  const legal = new Set(legalMoves.map((move) => move.replace(/[+#]$/, "")));
+  let fallback: ExtractedMove | null = null;
+  for (const [rule, find] of RULES) {
+    const candidates = find(trimmed).map(normalizeCandidate).filter(Boolean);
+    const legalCandidates = candidates.filter((candidate) => legal.has(candidate));
+    if (legalCandidates.length) return { move: legalCandidates[legalCandidates.length - 1], rule };
+    const guess = candidates.find(looksLikeMove);
+    if (!fallback && guess) fallback = { move: guess, rule };
+  }
+  if (RESIGN_PATTERN.test(trimmed)) return { move: "resign", rule: "first-token" };
+  return fallback ?? { move: normalizeCandidate(firstToken), rule: "first-token" };
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { applyChaosMove } from "./chess-utils";
+import { chess960PositionFromSeed, chess960StartFen, initialCastlingRights, toShredderFen } from "./chess960";
+import { playMatch } from "./match-engine";
+import { formatPgn } from "./pgn";
+
+test("a seeded Chess960 game records its start position in the PGN headers", async () => {
+  const seed = 4242;
+  const position = chess960PositionFromSeed(seed);
+  const result = await playMatch({
+    whiteModel: "local/random",
+    blackModel: "local/random",
+    mode: "strict",
+    variant: "chess960",
+    chess960Seed: seed,
+    maxPly: 4
+  });
+
+  assert.equal(result.chess960Position, position);
+  assert.match(result.pgn, /^\[Variant "Chess960"\]$/m);
+  assert.match(result.pgn, new RegExp(`^\\[Chess960Position "${position}"\\]$`, "m"));
+  assert.match(result.pgn, /^\[SetUp "1"\]$/m);
+  // 960 castling rights are written Shredder-style, naming the rook files.
+  const startFen = toShredderFen(chess960StartFen(position), initialCastlingRights(position));
+  assert.ok(result.pgn.includes(`[FEN "${startFen}"]`));
+});
+
+test("chaos moves keep SAN when a legal move matches and are commented out otherwise", () => {
+  const start = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+  // A legal move sent through the chaos path still has a SAN.
+  assert.equal(applyChaosMove(start, { from: "g1", to: "f3" }, "w", 1).san, "Nf3");
+  const teleport = applyChaosMove(start, { from: "d1", to: "d7" }, "w", 1);
+  assert.equal(teleport.san, undefined);
+  assert.equal(teleport.uci, "d1d7");
+
+  const pgn = formatPgn(
+    { Variant: "Chaos" },
+    [
+      { san: "d1d7", teleport: true, color: "white", moveNumber: 1 },
+      { san: "Kxd7", color: "black", moveNumber: 1 }
+    ],
+    "*"
+  );
+  assert.match(pgn, /^\[Variant "Chaos"\]$/m);
+  assert.ok(pgn.endsWith("1. -- {Chaos move d1d7} 1... Kxd7 *"));
+});
@@ -0,0 +1,107 @@
+import { MatchReason, MatchResult, TimeControl } from "./types";
+
+export interface PgnMove {
+  san: string; // the raw UCI token for a teleport
+  teleport?: boolean; // a chaos move no SAN describes; written as the null move "--"
+  color: "white" | "black";
+  moveNumber: number;
+  comment?: string;
+  clockMs?: number; // mover's clock after the move, in timed games
+  elapsedMs?: number; // time the mover spent on it
+}
+
+// The seven tags every PGN starts with, in their required order.
+const ROSTER_TAGS = ["Event", "Site", "Date", "Round", "White", "Black", "Result"];
+
+// Standard Termination tag values; arena-imposed endings (move cap, budget) count as adjudication.
+export const TERMINATIONS: Record<MatchReason, string> = {
+  checkmate: "normal",
+  resignation: "normal",
+  stalemate: "normal",
+  "fifty-move": "normal",
+  insufficient: "normal",
+  threefold: "normal",
+  agreement: "normal",
+  timeout: "time forfeit",
+  illegal: "rules infraction",
+  format: "rules infraction",
+  "max-move": "adjudication",
+  budget: "adjudication",
+  "resign-adjudication": "adjudication",
+  "draw-adjudication": "adjudication",
+  "endgame-adjudication": "adjudication",
+  error: "emergency",
+  aborted: "abandoned"
+};
+
+// PGN dates are UTC "YYYY.MM.DD".
+export function pgnDate(timestamp: number) {
+  return new Date(timestamp).toISOString().slice(0, 10).replace(/-/g, ".");
+}
+
+// The PGN TimeControl tag counts seconds ("300+2"); "-" marks an untimed game. It has no field for delay.
+export function pgnTimeControl(timeControl?: TimeControl) {
+  if (!timeControl) return "-";
+  const increment = timeControl.incrementSeconds ? `+${timeControl.incrementSeconds}` : "";
+  return `${timeControl.baseSeconds}${increment}`;
+}
+
+// H:MM:SS, as the [%clk] and [%emt] commands expect.
+function clockText(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function moveComment({ san, teleport, comment, clockMs, elapsedMs }: PgnMove) {
+  const parts = [
+    teleport ? `Chaos move ${san}` : null,
+    clockMs !== undefined ? `[%clk ${clockText(clockMs)}]` : null,
+    elapsedMs !== undefined ? `[%emt ${clockText(elapsedMs)}]` : null,
+    comment?.replace(/[{}]/g, "")
+  ].filter(Boolean);
+  return parts.length ? `{${parts.join(" ")}}` : null;
+}
+
+export function resultToken(winner?: MatchResult["winner"]) {
+  if (winner === "white") return "1-0";
+  if (winner === "black") return "0-1";
+  if (winner === "draw") return "1/2-1/2";
+  return "*";
+}
+
+function escapeTag(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Writes a PGN from tracked SAN moves rather than chess.js history, because castling in
+ * Chess960 and chaos teleports both rebuild the board and would otherwise drop earlier moves.
+ * Teleports go in as "--" with the raw token in the comment, so the movetext stays parseable.
+ */
+export function formatPgn(headers: Record<string, string | undefined>, moves: PgnMove[], result: string) {
+  const tags: Record<string, string> = { Event: "?", Site: "?", Date: "????.??.??", Round: "?", White: "?", Black: "?" };
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) tags[name] = value;
+  }
+  tags.Result = result;
+  const ordered = [...ROSTER_TAGS, ...Object.keys(tags).filter((name) => !ROSTER_TAGS.includes(name))];
+  const headerText = ordered.map((name) => `[${name} "${escapeTag(tags[name])}"]`).join("\n");
+
+  const tokens: string[] = [];
+  const comments = moves.map(moveComment);
+  moves.forEach((move, index) => {
+    if (move.color === "white") {
+      tokens.push(`${move.moveNumber}.`);
+    } else if (index === 0 || comments[index - 1]) {
+      tokens.push(`${move.moveNumber}...`);
+    }
+    tokens.push(move.teleport ? "--" : move.san);
+    if (comments[index]) tokens.push(comments[index]!);
+  });
+  tokens.push(result);
+
+  return `${headerText}\n\n${tokens.join(" ")}`;
+}
@@ -0,0 +1,122 @@
+import type { ModelMessage } from "ai";
+import { AnalysisToolCall, createAnalysisTools } from "./analysis-tools";
+import { fetchExplainedMove, fetchMove, fetchToolMove, GatewayProvider } from "./gateway";
+import { createLocalPlayer } from "./local-players";
+import { engineDepth, isEngineModel, isLocalModel } from "./models";
+import { searchBestMove } from "./search-engine";
+import { MoveSubmission, TokenUsage } from "./types";
+
+export interface MoveRequest {
+  fen: string;
+  history: string[];
+  activeColor: "white" | "black";
+  prompt: string;
+  timeoutMs: number;
+  explain?: boolean; // the prompt asked for a rationale alongside the move
+  conversationTurn?: string; // this ply's user message when the player keeps a conversation
+  onToolCall?: (call: AnalysisToolCall) => void; // reports each analysis tool call as it happens
+}
+
+export interface PlayerReply {
+  move: string; // raw move text or a whole reply for the engine to extract from; empty counts as an empty move
+  thought?: string; // short rationale, only in explain mode
+  offerDraw?: boolean; // set through make_move, or read from the reply text
+  acceptDraw?: boolean; // set through make_move; text replies are checked by the engine
+  formatError?: string; // the reply could not be read as a move submission at all
+  usage?: TokenUsage; // tokens the gateway reported for this reply
+}
+
+export interface MatchPlayer {
+  model: string;
+  requestMove(request: MoveRequest): Promise<PlayerReply>;
+}
+
+export interface PlayerContext {
+  gatewayProvider?: GatewayProvider;
+  script?: string[];
+  submission?: MoveSubmission; // only gateway players take tool calls
+  analysis?: { budget: number }; // offer analysis tools with this many calls per move
+  conversation?: {
+    system: string;
+    window: number; // user/assistant exchanges kept besides the system prompt
+  };
+}
+
+// Plain-text replies reach the engine whole, so conversation history keeps only their start.
+const MAX_STORED_REPLY_CHARS = 200;
+
+// The search is synchronous and blocks every other game on the server while it runs, so both
+// the node budget and the time per move are clamped whatever the environment asks for.
+const MAX_ENGINE_NODE_BUDGET = 1_000_000;
+const ENGINE_NODE_BUDGET = clampSetting(process.env.ENGINE_NODE_BUDGET, 150_000, MAX_ENGINE_NODE_BUDGET);
+const ENGINE_MOVE_MS = 250;
+
+function clampSetting(raw: string | undefined, fallback: number, max: number) {
+  const value = parseInt(raw ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, max) : fallback;
+}
+
+function createEnginePlayer(model: string): MatchPlayer {
+  const depth = engineDepth(model);
+  if (!depth) throw new Error(`Unknown engine model: ${model}`);
+  return {
+    model,
+    requestMove: async ({ fen, explain, timeoutMs }) => {
+      // Half the move's timeout at most, so a short clock is never flagged by the search itself.
+      const timeLimitMs = Math.min(ENGINE_MOVE_MS, timeoutMs / 2);
+      const result = searchBestMove(fen, { depth, nodeBudget: ENGINE_NODE_BUDGET, timeLimitMs });
+      if (!result.move) return { move: "resign" };
+      // Scores are from the mover's side, so the thought reads the same for both colors.
+      const thought = explain ? `Depth ${result.depth} search, score ${result.score} cp after ${result.nodes} nodes.` : undefined;
+      return { move: result.move, thought };
+    }
+  };
+}
+
+export function createPlayer(model: string, context: PlayerContext): MatchPlayer {
+  if (isLocalModel(model)) return createLocalPlayer(model, context.script);
+  if (isEngineModel(model)) return createEnginePlayer(model);
+
+  const { gatewayProvider } = context;
+  if (!gatewayProvider) {
+    throw new Error(`Model ${model} needs the AI Gateway but no key was provided`);
+  }
+  const ask = async (prompt: string | ModelMessage[], { fen, timeoutMs, explain, onToolCall }: MoveRequest): Promise<PlayerReply> => {
+    // Fresh tools per move: they answer for this position and count this move's budget.
+    const analysis = context.analysis
+      ? createAnalysisTools(fen, context.analysis.budget, onToolCall ?? (() => undefined))
+      : undefined;
+    if (context.submission === "tool") return fetchToolMove(model, gatewayProvider, prompt, timeoutMs, explain, analysis);
+    return explain
+      ? fetchExplainedMove(model, gatewayProvider, prompt, timeoutMs, analysis)
+      : fetchMove(model, gatewayProvider, prompt, timeoutMs, analysis);
+  };
+
+  const { conversation } = context;
+  if (!conversation) {
+    return { model, requestMove: (request) => ask(request.prompt, request) };
+  }
+
+  // Alternating user/assistant turns for this side; only the newest `window` exchanges are sent.
+  const turns: ModelMessage[] = [];
+  return {
+    model,
+    requestMove: async (request) => {
+      turns.push({ role: "user", content: request.conversationTurn ?? request.prompt });
+      const recent = turns.slice(-(conversation.window * 2 - 1));
+      try {
+        const reply = await ask([{ role: "system", content: conversation.system }, ...recent], request);
+        // Store the parsed reply, capped, rather than the raw text so chatter does not pile up in the window.
+        const move = reply.move.replace(/\s+/g, " ").slice(0, MAX_STORED_REPLY_CHARS);
+        turns.push({
+          role: "assistant",
+          content: reply.thought ? `MOVE: ${move}\nREASON: ${reply.thought}` : move || "(no move)"
+        });
+        return reply;
+      } catch (err) {
+        turns.pop();
+        throw err;
+      }
+    }
+  };
+}
@@ -1,52 +1,364 @@
+import type { PlayerReply } from "./players";
+import { formatTimeControl } from "./time-control";
+import { AssistancePolicy, BoardRepresentation, MatchVariant, MoveSubmission, TimeControl } from "./types";
+
 interface PromptInput {
   fen: string;
-  history: string[];
+  history: string[]; // UCI, or SAN when representations include san-history
+  representations?: BoardRepresentation[];
+  inCheck?: boolean;
+  opponentLastMove?: string; // SAN of the move just played against this side
   activeColor: "white" | "black";
   mode: "strict" | "chaos" | "bullet";
   clockMsRemaining?: number;
-  initialClockMs?: number;
+  timeControl?: TimeControl;
+  variant?: MatchVariant;
+  explain?: boolean; // ask for a MOVE line plus a short REASON line
+  submission?: MoveSubmission;
+  toolCallBudget?: number; // analysis tool calls allowed this move; absent when tools are off
+  formatError?: string; // why this side's previous reply could not be read
+  drawOffered?: boolean; // the opponent offered a draw with its last move
   lastMove?: {
     wasIllegal: boolean;
     reason?: string;
     moveText?: string;
   };
+  legalMoveHint?: LegalMoveHint;
+}
+
+// Legal moves offered after a strike, for one piece (square set) or the whole position.
+export interface LegalMoveHint {
+  square?: string;
+  moves: string[];
 }
 
 const HISTORY_CAP = 24; // limit history text to keep prompts small
+export const DEFAULT_CONVERSATION_WINDOW = 16;
+const MAX_CONVERSATION_WINDOW = 200;
+const THOUGHT_MAX_CHARS = 400;
 
-export function buildModelPrompt({ fen, history, activeColor, mode, lastMove, clockMsRemaining, initialClockMs }: PromptInput) {
-  const historyTail = history.slice(-HISTORY_CAP);
-  const trimmedCount = history.length - historyTail.length;
-  const colorText = activeColor === "white" ? "White" : "Black";
-  const isChaos = mode === "chaos";
-  const isBullet = mode === "bullet";
-  const legality = isChaos
-    ? "Chaos: illegal moves still execute, but they still count as strikes."
-    : "Strict: only legal chess moves; 3 strikes forfeits.";
+export const BOARD_REPRESENTATIONS: BoardRepresentation[] = ["fen", "ascii", "piece-list", "san-history", "status-lines"];
+export const DEFAULT_BOARD_REPRESENTATIONS: BoardRepresentation[] = ["fen"];
+export const BOARD_REPRESENTATION_LABELS: Record<BoardRepresentation, string> = {
+  fen: "FEN",
+  ascii: "ASCII board",
+  "piece-list": "Piece list",
+  "san-history": "SAN history",
+  "status-lines": "Check/last move"
+};
+const BOARD_VIEWS: BoardRepresentation[] = ["fen", "ascii", "piece-list"];
+const PIECE_ORDER = "kqrbnp";
 
-  const lastMoveLine =
-    (lastMove?.wasIllegal)
-      ? `Your previous move "${lastMove.moveText ?? "unknown"}" was ILLEGAL: ${lastMove.reason ?? "violated chess rules"}. Do not repeat it; choose a legal move now.`
-      : null;
+const DRAW_OFFER_PATTERN = /\(=\)|\boffers?(?:ing)?\s+(?:a\s+)?draw\b/i;
+const DRAW_ACCEPT_PATTERN = /^\W*(?:i\s+)?accept(?:\s+(?:the\s+|your\s+)?draw(?:\s+offer)?)?\W*$/i;
+
+// Text replies offer a draw with "(=)" (or "offer draw") after the move.
+export function offersDraw(text: string) {
+  return DRAW_OFFER_PATTERN.test(text);
+}
+
+// A text reply accepts a pending offer by saying only "accept draw" (or "accept").
+export function acceptsDraw(text: string) {
+  return DRAW_ACCEPT_PATTERN.test(text.trim());
+}
 
-  const clockLine =
-    isBullet && typeof clockMsRemaining === "number"
-      ? `Bullet mode: ${Math.round((initialClockMs ?? 0) / 6000) / 10 || 3} minutes per side. Your clock: ${Math.max(0, Math.floor(clockMsRemaining / 1000))} seconds remaining. Respond immediately or you will lose on time.`
+// Reads "MOVE: e2e4" / "REASON: ..." replies; without those labels the first token is the move.
+export function parseExplainedReply(text: string): PlayerReply {
+  const trimmed = text.trim();
+  const moveMatch = trimmed.match(/\bmove\**\s*:\s*\**\s*([^\s*]+)/i);
+  const reasonMatch = trimmed.match(/\breason\**\s*:\s*\**\s*([\s\S]+)/i);
+  const move = moveMatch?.[1] ?? trimmed.split(/\s+/)[0] ?? "";
+  const rest = reasonMatch?.[1] ?? (moveMatch ? "" : trimmed.slice(move.length));
+  const thought = rest.replace(/\s+/g, " ").trim().slice(0, THOUGHT_MAX_CHARS);
+  // Only the move line can carry an offer, so a rationale that mentions draws does not make one.
+  const lines = trimmed.split("\n");
+  const moveLine = lines.find((line) => /\bmove\**\s*:/i.test(line)) ?? lines[0];
+  const reply: PlayerReply = offersDraw(moveLine) ? { move, offerDraw: true } : { move };
+  return thought ? { ...reply, thought } : reply;
+}
+
+const MAX_MOVE_TOKEN_LENGTH = 12;
+
+function toolReply(reply: PlayerReply, comment: unknown): PlayerReply {
+  const thought = typeof comment === "string" ? comment.replace(/\s+/g, " ").trim().slice(0, THOUGHT_MAX_CHARS) : "";
+  return thought ? { ...reply, thought } : reply;
+}
+
+// Checks make_move arguments; anything malformed becomes a format error instead of an illegal move.
+export function parseMakeMoveInput(input: unknown): PlayerReply {
+  if (!input || typeof input !== "object") return { move: "", formatError: "make_move was called without arguments" };
+  const { move, resign, offerDraw, acceptDraw, comment } = input as Record<string, unknown>;
+  if (resign !== undefined && typeof resign !== "boolean") return { move: "", formatError: "resign must be true or false" };
+  if (offerDraw !== undefined && typeof offerDraw !== "boolean") {
+    return { move: "", formatError: "offerDraw must be true or false" };
+  }
+  if (acceptDraw !== undefined && typeof acceptDraw !== "boolean") {
+    return { move: "", formatError: "acceptDraw must be true or false" };
+  }
+  if (resign) return toolReply({ move: "resign" }, comment);
+  const text = typeof move === "string" ? move.trim() : "";
+  // The engine decides whether there is an offer to accept; a move sent alongside is played otherwise.
+  if (acceptDraw === true && !text) return toolReply({ move: "", acceptDraw }, comment);
+  if (!text) return { move: "", formatError: "make_move needs a move" };
+  if (/\s/.test(text) || text.length > MAX_MOVE_TOKEN_LENGTH) {
+    return { move: "", formatError: `move must be a single move such as e2e4, got "${text.slice(0, 40)}"` };
+  }
+  const reply: PlayerReply = { move: text };
+  if (offerDraw === true) reply.offerDraw = true;
+  if (acceptDraw === true) reply.acceptDraw = true;
+  return toolReply(reply, comment);
+}
+
+function drawOfferLine({ drawOffered, submission }: Pick<PromptInput, "drawOffered" | "submission">) {
+  if (!drawOffered) return null;
+  return submission === "tool"
+    ? "Your opponent offers a draw. Call make_move with acceptDraw set to true to accept, or play a move to decline."
+    : 'Your opponent offers a draw. Answer "accept draw" instead of a move to accept, or play a move to decline.';
+}
+
+function formatErrorLine(formatError?: string) {
+  return formatError
+    ? `Your previous reply could not be read (${formatError}). Submit exactly one move through make_move.`
+    : null;
+}
+
+function illegalFeedbackLine(lastMove: PromptInput["lastMove"]) {
+  return lastMove?.wasIllegal
+    ? `Your previous move "${lastMove.moveText ?? "unknown"}" was ILLEGAL: ${lastMove.reason ?? "violated chess rules"}. Do not repeat it; choose a legal move now.`
+    : null;
+}
+
+function legalMoveHintLine(hint: PromptInput["legalMoveHint"]) {
+  if (!hint) return null;
+  if (!hint.moves.length) return hint.square ? `The piece on ${hint.square} has no legal moves; move a different piece.` : null;
+  return hint.square
+    ? `Legal moves for your piece on ${hint.square}: ${hint.moves.join(" ")}`
+    : `All your legal moves: ${hint.moves.join(" ")}`;
+}
+
+function clockLine({ timeControl, clockMsRemaining, mode }: Pick<PromptInput, "timeControl" | "clockMsRemaining" | "mode">) {
+  if (!timeControl || typeof clockMsRemaining !== "number") return null;
+  return [
+    `Time control ${formatTimeControl(timeControl)}. Your clock: ${Math.max(0, Math.floor(clockMsRemaining / 1000))} seconds remaining.`,
+    timeControl.incrementSeconds ? `You gain ${timeControl.incrementSeconds}s after each legal move.` : null,
+    timeControl.delaySeconds ? `The first ${timeControl.delaySeconds}s of every move are free.` : null,
+    mode === "bullet" ? "Respond immediately or you will lose on time." : "Running out of time loses the game."
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Rules and reply format; identical every ply, so conversation mode sends them once as the system prompt.
+function ruleLines({
+  mode,
+  variant,
+  explain,
+  submission,
+  toolCallBudget
+}: Pick<PromptInput, "mode" | "variant" | "explain" | "submission" | "toolCallBudget">) {
+  const isBullet = mode === "bullet";
+  const legality =
+    mode === "chaos"
+      ? "Chaos: illegal moves still execute, but they still count as strikes."
+      : "Strict: only legal chess moves; 3 strikes forfeits.";
+  const variantLine =
+    variant === "chess960"
+      ? "Chess960 (Fischer Random): the castling rights list the files of rooks that can still castle. To castle, answer O-O or O-O-O (or move your king onto your own rook, e.g. e1h1); the king ends on g/c and the rook on f/d."
       : null;
+  const analysisLine = toolCallBudget
+    ? `Before answering you may call list_legal_moves, is_square_attacked and apply_and_show_fen, up to ${toolCallBudget} calls per move.`
+    : null;
   const speedLine = isBullet
     ? "Act fast: return only the move as a single UCI token (e.g., e2e4). Do not add commentary or code fences."
     : "Respond with exactly one move in long algebraic UCI (e.g., e2e4, g8f6, a7a8q).";
 
+  if (submission === "tool") {
+    return [
+      variantLine,
+      legality,
+      analysisLine,
+      "Submit your move by calling the make_move tool with move in long algebraic UCI (e.g., e2e4, g8f6, a7a8q).",
+      "To resign, call make_move with resign set to true. Set offerDraw to true to offer a draw with your move.",
+      explain ? "Put one short sentence on why you chose the move in the comment field." : null
+    ];
+  }
+
   return [
-    `You are playing ${colorText} in a chess game.`,
-    `Board (FEN): ${fen}`,
-    `Previous moves (last ${historyTail.length}${trimmedCount > 0 ? ` of ${history.length}` : ""}): ${historyTail.length ? historyTail.join(" ") : "none"}`,
-    lastMoveLine,
-    clockLine,
+    variantLine,
     legality,
+    analysisLine,
     speedLine,
     "If you want to resign, respond with: resign",
-    "Do not include any commentary or code blocks. Output a single token with no quotes."
+    explain
+      ? "Reply in exactly two lines with no code blocks:\nMOVE: <your move>\nREASON: <one short sentence on why>\nTo offer a draw, end the MOVE line with (=)."
+      : "Do not include any commentary or code blocks. Output a single token with no quotes, followed by (=) only if you offer a draw."
+  ];
+}
+
+function historyLine(history: string[], representations = DEFAULT_BOARD_REPRESENTATIONS) {
+  const historyTail = history.slice(-HISTORY_CAP);
+  const trimmedCount = history.length - historyTail.length;
+  const notation = representations.includes("san-history") ? "SAN, " : "";
+  return `Previous moves (${notation}last ${historyTail.length}${trimmedCount > 0 ? ` of ${history.length}` : ""}): ${historyTail.length ? historyTail.join(" ") : "none"}`;
+}
+
+// Board rows from rank 8 down to rank 1, one character per square ("." when empty).
+function boardRows(fen: string) {
+  return fen
+    .split(" ")[0]
+    .split("/")
+    .map((row) => [...row.replace(/\d/g, (digit) => ".".repeat(Number(digit)))]);
+}
+
+function asciiBoard(fen: string) {
+  const rows = boardRows(fen).map((row, index) => `${8 - index} | ${row.join(" ")} |`);
+  return ["Board (uppercase = White, lowercase = Black):", "  +-----------------+", ...rows, "  +-----------------+", "    a b c d e f g h"].join(
+    "\n"
+  );
+}
+
+function pieceList(fen: string) {
+  const squares: Record<"white" | "black", Record<string, string[]>> = { white: {}, black: {} };
+  boardRows(fen).forEach((row, rowIndex) =>
+    row.forEach((piece, fileIndex) => {
+      if (piece === ".") return;
+      const side = piece === piece.toUpperCase() ? "white" : "black";
+      (squares[side][piece.toLowerCase()] ??= []).push(`${"abcdefgh"[fileIndex]}${8 - rowIndex}`);
+    })
+  );
+  return (["white", "black"] as const)
+    .map((side) => {
+      const groups = [...PIECE_ORDER]
+        .filter((type) => squares[side][type])
+        .map((type) => `${side === "white" ? type.toUpperCase() : type} ${squares[side][type].join(", ")}`);
+      return `${side === "white" ? "White" : "Black"} pieces: ${groups.join("; ")}`;
+    })
+    .join("\n");
+}
+
+// Side to move, castling and en passant; the FEN carries these, other views need them spelled out.
+function positionDetailsLine(fen: string) {
+  const [, turn, castling = "-", enPassant = "-"] = fen.split(" ");
+  return `${turn === "b" ? "Black" : "White"} to move. Castling rights: ${castling}. En passant square: ${enPassant}.`;
+}
+
+function statusLines({ inCheck, opponentLastMove }: Pick<PromptInput, "inCheck" | "opponentLastMove">) {
+  return [
+    `Opponent's last move: ${opponentLastMove ?? "none"}`,
+    inCheck ? "You are in check: your move must get your king out of check." : null
+  ];
+}
+
+function boardLines(input: PromptInput) {
+  const representations = input.representations ?? DEFAULT_BOARD_REPRESENTATIONS;
+  const shows = (representation: BoardRepresentation) => representations.includes(representation);
+  return [
+    shows("fen") ? `Board (FEN): ${input.fen}` : null,
+    shows("ascii") ? asciiBoard(input.fen) : null,
+    shows("piece-list") ? pieceList(input.fen) : null,
+    shows("fen") ? null : positionDetailsLine(input.fen),
+    ...(shows("status-lines") ? statusLines(input) : [])
+  ];
+}
+
+/**
+ * Validates requested board representations and returns them in canonical order, so results
+ * that used the same set compare equal. Defaults to FEN only.
+ */
+export function resolveBoardRepresentations(representations?: unknown): BoardRepresentation[] {
+  if (representations === undefined) return DEFAULT_BOARD_REPRESENTATIONS;
+  if (!Array.isArray(representations)) throw new Error("boardRepresentations must be an array");
+  const unknown = representations.find((r) => !BOARD_REPRESENTATIONS.includes(r));
+  if (unknown !== undefined) throw new Error(`Unknown board representation: ${unknown}`);
+  if (!representations.some((r) => BOARD_VIEWS.includes(r))) {
+    throw new Error("boardRepresentations needs at least one of fen, ascii or piece-list");
+  }
+  return BOARD_REPRESENTATIONS.filter((r) => representations.includes(r));
+}
+
+export function buildModelPrompt(input: PromptInput) {
+  const colorText = input.activeColor === "white" ? "White" : "Black";
+  return [
+    `You are playing ${colorText} in a chess game.`,
+    ...boardLines(input),
+    historyLine(input.history, input.representations),
+    formatErrorLine(input.formatError),
+    illegalFeedbackLine(input.lastMove),
+    legalMoveHintLine(input.legalMoveHint),
+    drawOfferLine(input),
+    clockLine(input),
+    ...ruleLines(input)
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Validates a requested conversation window (user/assistant exchanges per side) and fills the default.
+export function resolveConversationWindow(window?: number) {
+  if (window === undefined) return DEFAULT_CONVERSATION_WINDOW;
+  if (!Number.isInteger(window) || window < 1 || window > MAX_CONVERSATION_WINDOW) {
+    throw new Error(`conversationWindow must be a whole number from 1 to ${MAX_CONVERSATION_WINDOW}`);
+  }
+  return window;
+}
+
+export function validatePromptStyle(promptStyle?: string, conversationWindow?: number) {
+  if (promptStyle !== undefined && promptStyle !== "one-shot" && promptStyle !== "conversation") {
+    throw new Error(`Unknown promptStyle: ${promptStyle}`);
+  }
+  resolveConversationWindow(conversationWindow);
+}
+
+export const ASSISTANCE_HINTS: Record<AssistancePolicy, string> = {
+  off: "After an illegal move, only repeat why it was illegal",
+  piece: "After an illegal move, also list the legal moves of the piece that was tried",
+  ladder: "Piece moves after the first strike, every legal move after the second"
+};
+
+export function validateSubmission(submission?: string) {
+  if (submission !== undefined && submission !== "text" && submission !== "tool") {
+    throw new Error(`Unknown submission: ${submission}`);
+  }
+}
+
+export function validateAssistancePolicy(assistance?: string) {
+  if (assistance !== undefined && assistance !== "off" && assistance !== "piece" && assistance !== "ladder") {
+    throw new Error(`Unknown assistance policy: ${assistance}`);
+  }
+}
+
+export function buildConversationSystemPrompt(
+  input: Pick<PromptInput, "activeColor" | "mode" | "variant" | "explain" | "submission" | "toolCallBudget">
+) {
+  const colorText = input.activeColor === "white" ? "White" : "Black";
+  return [
+    `You are playing ${colorText} in a chess game. Each turn you get the opponent's last move and the current board; answer with your move.`,
+    ...ruleLines(input)
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * One user turn of a conversation-mode game. The first turn carries the move list so far;
+ * later turns only list the moves played since, as earlier turns stay in the message history.
+ */
+export function buildConversationTurn(input: PromptInput & { movesSinceLastTurn?: string[] }) {
+  const { movesSinceLastTurn } = input;
+  const movesLine = !movesSinceLastTurn
+    ? historyLine(input.history, input.representations)
+    : movesSinceLastTurn.length
+      ? `Moves since your last turn: ${movesSinceLastTurn.join(" ")}`
+      : null;
+  return [
+    movesLine,
+    ...boardLines(input),
+    formatErrorLine(input.formatError),
+    illegalFeedbackLine(input.lastMove),
+    legalMoveHintLine(input.legalMoveHint),
+    drawOfferLine(input),
+    clockLine(input),
+    "Your move."
   ]
     .filter(Boolean)
     .join("\n");
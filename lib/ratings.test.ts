@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  BASE_RATING,
+  buildLeaderboards,
+  createPoolRatings,
+  formatRating,
+  isRatingPool,
+  ratingHistory,
+  ratingPool,
+  snapshotSystem,
+  updateElo,
+  withRatingSnapshots
+} from "./ratings";
+import { MatchResult, StoredGame, TimeControl } from "./types";
+
+let played = 0;
+function game(white: string, black: string, winner: MatchResult["winner"], timeControl?: TimeControl): StoredGame {
+  played += 1;
+  return {
+    id: `g${played}`,
+    playedAt: played * 1000,
+    white,
+    black,
+    mode: "strict",
+    source: "match",
+    result: {
+      winner,
+      reason: winner === "none" ? "error" : winner === "draw" ? "stalemate" : "checkmate",
+      moves: [],
+      pgn: "",
+      illegalCounts: { white: 0, black: 0 },
+      finalFen: "",
+      timeControl
+    }
+  };
+}
+
+test("pools split games by mode and clock speed", () => {
+  assert.equal(ratingPool("strict"), "strict:untimed");
+  assert.equal(ratingPool("bullet", { baseSeconds: 60 }), "bullet:bullet");
+  assert.equal(ratingPool("chaos", { baseSeconds: 600, incrementSeconds: 5 }), "chaos:rapid");
+  assert.ok(isRatingPool("strict:blitz"));
+  assert.ok(!isRatingPool("strict:blitz:extra"));
+  assert.ok(!isRatingPool("giveaway:untimed"));
+});
+
+test("Elo moves both sides by the same amount and skips unrated games", () => {
+  const ratings: Record<string, number> = {};
+  assert.deepEqual(updateElo(ratings, "a", "b", { winner: "white" }), { white: 12, black: -12 });
+  assert.deepEqual(ratings, { a: BASE_RATING + 12, b: BASE_RATING - 12 });
+  assert.deepEqual(updateElo(ratings, "a", "b", { winner: "none" }), { white: 0, black: 0 });
+  assert.deepEqual(updateElo(ratings, "a", "a", { winner: "white" }), { white: 0, black: 0 });
+});
+
+test("each pool is rated as if the others did not exist", () => {
+  const games = [
+    game("a", "b", "white"),
+    game("a", "b", "white", { baseSeconds: 180, incrementSeconds: 2 }),
+    game("b", "a", "white", { baseSeconds: 180, incrementSeconds: 2 }),
+    game("a", "b", "none"),
+    game("a", "a", "white")
+  ];
+  const leaderboards = buildLeaderboards(games);
+  assert.deepEqual(Object.keys(leaderboards).sort(), ["strict:blitz", "strict:untimed"]);
+  const untimed = leaderboards["strict:untimed"]!;
+  assert.deepEqual(untimed.map((row) => [row.model, row.games, row.wins]), [["a", 1, 1], ["b", 1, 0]]);
+  const blitz = leaderboards["strict:blitz"]!;
+  assert.deepEqual(blitz.map((row) => [row.games, row.wins, row.losses]), [[2, 1, 1], [2, 1, 1]]);
+});
+
+test("snapshots record each side's rating before and after its game", () => {
+  const games = withRatingSnapshots([game("a", "b", "white"), game("b", "a", "draw"), game("a", "b", "none")]);
+  const [first, second, noContest] = games;
+  assert.equal(first.ratings?.system, "glicko2");
+  assert.equal(first.ratings?.pool, "strict:untimed");
+  assert.equal(first.ratings?.white.before.rating, 1500);
+  assert.ok(first.ratings!.white.after.rating > 1500);
+  assert.deepEqual(second.ratings?.black.before, first.ratings?.white.after);
+  assert.equal(noContest.ratings, undefined);
+});
+
+test("snapshots taken one game at a time match a full replay", () => {
+  const games = [game("a", "b", "white"), game("c", "a", "black"), game("b", "c", "draw")];
+  const pools = createPoolRatings("elo");
+  const incremental = games.map((g) => ({ ...g, ratings: pools.rate(g) }));
+  assert.deepEqual(incremental, withRatingSnapshots(games, createPoolRatings("elo")));
+  assert.equal(snapshotSystem(incremental), "elo");
+  assert.equal(snapshotSystem([]), "glicko2");
+});
+
+test("a budget stop is not rated", () => {
+  const stopped = game("a", "b", "none");
+  stopped.result.reason = "budget";
+  assert.equal(createPoolRatings().rate(stopped), undefined);
+});
+
+test("rating history follows one model through its pool from either color", () => {
+  const games = withRatingSnapshots([game("a", "b", "white"), game("b", "a", "white"), game("a", "c", "draw")]);
+  const history = ratingHistory(games, "a", "strict:untimed");
+  assert.deepEqual(
+    history.map((p) => [p.color, p.opponent, p.score]),
+    [["white", "b", 1], ["black", "b", 0], ["white", "c", 0.5]]
+  );
+  assert.deepEqual(history[1].before, history[0].after);
+  assert.deepEqual(ratingHistory(games, "a", "strict:blitz"), []);
+});
+
+test("formatRating marks deviation and provisional ratings", () => {
+  assert.equal(formatRating(undefined), "-");
+  assert.equal(formatRating({ rating: 1012.4 }), "1012");
+  assert.equal(formatRating({ rating: 1523.2, deviation: 87.4, provisional: false }), "1523 ±87");
+  assert.equal(formatRating({ rating: 1500, deviation: 350, provisional: true }), "1500 ±350?");
+});
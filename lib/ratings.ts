@@ -0,0 +1,232 @@
+import { GLICKO2_INITIAL, Glicko2Rating, PROVISIONAL_DEVIATION, updateGlicko2 } from "./glicko2";
+import { isNoContest } from "./results";
+import { TIME_CONTROL_SPEEDS, timeControlSpeed } from "./time-control";
+import {
+  GameRatings,
+  LeaderboardEntry,
+  MatchMode,
+  MatchResult,
+  PlayerRating,
+  RatingHistoryPoint,
+  RatingPool,
+  RatingSystem,
+  StoredGame,
+  TimeControl,
+  TimeControlSpeed
+} from "./types";
+
+export const BASE_RATING = 1000;
+export const K_FACTOR = 24;
+export const DEFAULT_RATING_SYSTEM: RatingSystem = "glicko2";
+export const RATING_SYSTEMS: RatingSystem[] = ["glicko2", "elo"];
+export const RATING_SYSTEM_LABELS: Record<RatingSystem, string> = {
+  glicko2: "Glicko-2",
+  elo: "Elo"
+};
+
+const MODE_LABELS: Record<MatchMode, string> = { strict: "Strict", chaos: "Chaos", bullet: "Bullet" };
+const SPEED_LABELS: Record<TimeControlSpeed, string> = {
+  untimed: "Untimed",
+  bullet: "Bullet",
+  blitz: "Blitz",
+  rapid: "Rapid",
+  classical: "Classical"
+};
+export const DEFAULT_RATING_POOL: RatingPool = "strict:untimed";
+
+export function validateRatingSystem(system?: RatingSystem) {
+  if (system !== undefined && !RATING_SYSTEMS.includes(system)) {
+    throw new Error(`ratingSystem must be one of ${RATING_SYSTEMS.join(", ")}`);
+  }
+}
+
+// The pool a game counts toward; pass the clock the game actually ran with.
+export function ratingPool(mode: MatchMode, timeControl?: TimeControl): RatingPool {
+  return `${mode}:${timeControlSpeed(timeControl)}`;
+}
+
+export function isRatingPool(value: string): value is RatingPool {
+  const [mode, speed, ...rest] = value.split(":");
+  return !rest.length && mode in MODE_LABELS && TIME_CONTROL_SPEEDS.includes(speed as TimeControlSpeed);
+}
+
+// "Strict · Blitz"
+export function ratingPoolLabel(pool: RatingPool) {
+  const [mode, speed] = pool.split(":") as [MatchMode, TimeControlSpeed];
+  return `${MODE_LABELS[mode]} · ${SPEED_LABELS[speed]}`;
+}
+
+// White's expected score against black.
+function expectedScore(white: number, black: number) {
+  return 1 / (1 + Math.pow(10, (black - white) / 400));
+}
+
+// No-contests say nothing about strength, and neither does a model playing itself.
+function isRated(white: string, black: string, result: Pick<MatchResult, "winner">) {
+  return !isNoContest(result) && white !== black;
+}
+
+const whiteScore = (result: Pick<MatchResult, "winner">) =>
+  result.winner === "white" ? 1 : result.winner === "black" ? 0 : 0.5;
+
+/**
+ * Applies one game to `ratings` in place and returns each side's change. Models without a rating
+ * start at BASE_RATING; unrated games change nothing.
+ */
+export function updateElo(
+  ratings: Record<string, number>,
+  white: string,
+  black: string,
+  result: Pick<MatchResult, "winner">
+) {
+  if (!isRated(white, black, result)) return { white: 0, black: 0 };
+  const ra = ratings[white] ?? BASE_RATING;
+  const rb = ratings[black] ?? BASE_RATING;
+  const delta = K_FACTOR * (whiteScore(result) - expectedScore(ra, rb));
+  ratings[white] = ra + delta;
+  ratings[black] = rb - delta;
+  return { white: delta, black: -delta };
+}
+
+/**
+ * Ratings for a set of models under one system, fed a game at a time. Under Glicko-2 every game is
+ * its own rating period for the two players, so a model's deviation only shrinks as it plays.
+ */
+export function createRatings(system: RatingSystem = DEFAULT_RATING_SYSTEM) {
+  const elo: Record<string, number> = {};
+  const glicko: Record<string, Glicko2Rating> = {};
+  const glickoOf = (model: string) => glicko[model] ?? GLICKO2_INITIAL;
+
+  const record = (white: string, black: string, result: Pick<MatchResult, "winner">) => {
+    if (system === "elo") {
+      updateElo(elo, white, black, result);
+      return;
+    }
+    if (!isRated(white, black, result)) return;
+    const [before, opponent] = [glickoOf(white), glickoOf(black)];
+    const score = whiteScore(result);
+    glicko[white] = updateGlicko2(before, [{ opponent, score }]);
+    glicko[black] = updateGlicko2(opponent, [{ opponent: before, score: 1 - score }]);
+  };
+
+  const get = (model: string): PlayerRating => {
+    if (system === "elo") return { rating: elo[model] ?? BASE_RATING };
+    const { rating, deviation } = glickoOf(model);
+    return { rating, deviation, provisional: deviation > PROVISIONAL_DEVIATION };
+  };
+
+  return { record, get };
+}
+
+// What a model with no rated games starts from.
+export function initialRating(system: RatingSystem): PlayerRating {
+  return createRatings(system).get("");
+}
+
+// Glicko-2 ratings rank by their lower bound, so an unproven model cannot top the table on luck.
+export function conservativeRating({ rating, deviation }: PlayerRating) {
+  return deviation === undefined ? rating : rating - 2 * deviation;
+}
+
+export function compareRatings(a: PlayerRating, b: PlayerRating) {
+  return conservativeRating(b) - conservativeRating(a);
+}
+
+// "1523 ±87?" under Glicko-2 (the ? marks a provisional rating), plain "1012" under Elo.
+export function formatRating(rating?: PlayerRating) {
+  if (!rating) return "-";
+  const deviation = rating.deviation !== undefined ? ` ±${Math.round(rating.deviation)}` : "";
+  return `${Math.round(rating.rating)}${deviation}${rating.provisional ? "?" : ""}`;
+}
+
+// Replays `games` oldest first and ranks every model with a scored game against another model, best first.
+export function buildLeaderboard(games: StoredGame[], system: RatingSystem = DEFAULT_RATING_SYSTEM): LeaderboardEntry[] {
+  const ratings = createRatings(system);
+  const table: Record<string, LeaderboardEntry> = {};
+  const entry = (model: string) =>
+    (table[model] = table[model] ?? { model, rating: 0, games: 0, wins: 0, draws: 0, losses: 0, lastPlayed: 0 });
+
+  for (const { white, black, result, playedAt } of [...games].sort((a, b) => a.playedAt - b.playedAt)) {
+    if (!isRated(white, black, result)) continue;
+    ratings.record(white, black, result);
+    for (const [model, side] of [[white, "white"], [black, "black"]] as const) {
+      const row = entry(model);
+      row.games += 1;
+      row.lastPlayed = Math.max(row.lastPlayed, playedAt);
+      if (result.winner === "draw") row.draws += 1;
+      else if (result.winner === side) row.wins += 1;
+      else row.losses += 1;
+    }
+  }
+  return Object.values(table)
+    .map((row) => ({ ...row, ...ratings.get(row.model) }))
+    .sort((a, b) => compareRatings(a, b) || b.games - a.games || a.model.localeCompare(b.model));
+}
+
+// One leaderboard per pool that has rated games; each pool is rated as if the others did not exist.
+export function buildLeaderboards(
+  games: StoredGame[],
+  system: RatingSystem = DEFAULT_RATING_SYSTEM
+): Partial<Record<RatingPool, LeaderboardEntry[]>> {
+  const byPool: Partial<Record<RatingPool, StoredGame[]>> = {};
+  for (const game of games) {
+    if (!isRated(game.white, game.black, game.result)) continue;
+    const pool = ratingPool(game.mode, game.result.timeControl);
+    (byPool[pool] = byPool[pool] ?? []).push(game);
+  }
+  const leaderboards: Partial<Record<RatingPool, LeaderboardEntry[]>> = {};
+  for (const [pool, poolGames] of Object.entries(byPool) as Array<[RatingPool, StoredGame[]]>) {
+    leaderboards[pool] = buildLeaderboard(poolGames, system);
+  }
+  return leaderboards;
+}
+
+/**
+ * Running ratings in every pool under one system. `rate` applies the next game in play order and
+ * returns both sides' ratings before and after it, or undefined for an unrated game.
+ */
+export function createPoolRatings(system: RatingSystem = DEFAULT_RATING_SYSTEM) {
+  const pools: Partial<Record<RatingPool, ReturnType<typeof createRatings>>> = {};
+
+  const rate = (game: StoredGame): GameRatings | undefined => {
+    if (!isRated(game.white, game.black, game.result)) return undefined;
+    const pool = ratingPool(game.mode, game.result.timeControl);
+    const ratings = (pools[pool] = pools[pool] ?? createRatings(system));
+    const before = { white: ratings.get(game.white), black: ratings.get(game.black) };
+    ratings.record(game.white, game.black, game.result);
+    return {
+      system,
+      pool,
+      white: { before: before.white, after: ratings.get(game.white) },
+      black: { before: before.black, after: ratings.get(game.black) }
+    };
+  };
+
+  return { system, rate };
+}
+
+/**
+ * Replays `games` oldest first through `pools` and returns them in that order, each rated game
+ * carrying its snapshot. Unrated games lose any snapshot; `pools` is left at the newest game.
+ */
+export function withRatingSnapshots(games: StoredGame[], pools = createPoolRatings()): StoredGame[] {
+  return [...games].sort((a, b) => a.playedAt - b.playedAt).map((game) => ({ ...game, ratings: pools.rate(game) }));
+}
+
+// The system stored snapshots were taken with: that of the newest one, since a recompute redoes them all.
+export function snapshotSystem(games: StoredGame[]): RatingSystem {
+  const newest = [...games].reverse().find((game) => game.ratings);
+  return newest?.ratings?.system ?? DEFAULT_RATING_SYSTEM;
+}
+
+// `model`'s rated games in `pool` from their stored snapshots, oldest first.
+export function ratingHistory(games: StoredGame[], model: string, pool: RatingPool): RatingHistoryPoint[] {
+  const points: RatingHistoryPoint[] = [];
+  for (const { id, playedAt, white, black, result, ratings } of games) {
+    if (ratings?.pool !== pool || (white !== model && black !== model)) continue;
+    const color = white === model ? "white" : "black";
+    const score = color === "white" ? whiteScore(result) : 1 - whiteScore(result);
+    points.push({ gameId: id, playedAt, color, opponent: color === "white" ? black : white, score, ...ratings[color] });
+  }
+  return points.sort((a, b) => a.playedAt - b.playedAt);
+}
@@ -0,0 +1,23 @@
+import { CallFailureKind, MatchResult } from "./types";
+
+// A pairing whose game ends as a no-contest is played again at most this often.
+export const MAX_NO_CONTEST_REPLAYS = 2;
+// Waited before each replay, longer every time, so a rate limit has a chance to clear.
+export const NO_CONTEST_REPLAY_DELAY_MS = 5000;
+
+export const CALL_FAILURE_LABELS: Record<CallFailureKind, string> = {
+  timeout: "timed out",
+  auth: "gateway authentication failed",
+  "rate-limit": "rate limited",
+  provider: "provider error"
+};
+
+// Games cut short by infrastructure rather than play; they carry no score and never move ratings.
+export function isNoContest(result: Pick<MatchResult, "winner">) {
+  return result.winner === "none";
+}
+
+// A budget stop would only hit the same cap again, so only failed or cancelled games are replayed.
+export function isReplayable(result: Pick<MatchResult, "winner" | "reason">) {
+  return isNoContest(result) && result.reason !== "budget";
+}
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { evaluateFen, searchBestMove } from "./search-engine";
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+test("finds a mate in one and reports no move when mated", () => {
+  const mateInOne = searchBestMove("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1", { depth: 2 });
+  assert.equal(mateInOne.move, "a1a8");
+  const mated = searchBestMove("R5k1/5ppp/8/8/8/8/8/6K1 b - - 0 1", { depth: 2 });
+  assert.equal(mated.move, null);
+  assert.ok(mated.score < 0);
+  assert.ok(evaluateFen("4k3/8/8/8/8/8/8/3QK3 w - - 0 1") > 800);
+});
+
+test("the time limit cuts a deep search short with the last completed depth", () => {
+  const started = Date.now();
+  const result = searchBestMove(START_FEN, { depth: 8, nodeBudget: Infinity, timeLimitMs: 50 });
+  assert.ok(Date.now() - started < 1000);
+  assert.ok(result.move);
+  assert.ok(result.depth >= 1 && result.depth < 8);
+});
+
+test("the node budget stops the search at its cap", () => {
+  const result = searchBestMove(START_FEN, { depth: 8, nodeBudget: 2000, timeLimitMs: 10_000 });
+  assert.ok(result.move);
+  assert.equal(result.nodes, 2001);
+});
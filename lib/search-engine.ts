@@ -0,0 +1,491 @@
+import { PieceSymbol } from "chess.js";
+
+export interface SearchOptions {
+  depth: number;
+  nodeBudget?: number; // stop deepening once this many positions have been visited
+  timeLimitMs?: number; // wall-clock cap on the search, since it runs on the event loop
+}
+
+export interface SearchResult {
+  move: string | null; // UCI, null when the side to move has no legal moves
+  score: number; // centipawns from the side to move
+  depth: number; // deepest fully completed iteration
+  nodes: number;
+}
+
+const DEFAULT_NODE_BUDGET = 150_000;
+const DEFAULT_TIME_LIMIT_MS = 250;
+// Reading the clock on every node would cost more than the search it guards.
+const CLOCK_CHECK_INTERVAL = 1024;
+const MATE_SCORE = 100_000;
+const QUIESCENCE_PLIES = 4;
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+
+// Piece-square tables from White's point of view, rank 8 first to match `chess.board()`.
+const PST: Record<PieceSymbol, number[][]> = {
+  p: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [50, 50, 50, 50, 50, 50, 50, 50],
+    [10, 10, 20, 30, 30, 20, 10, 10],
+    [5, 5, 10, 25, 25, 10, 5, 5],
+    [0, 0, 0, 20, 20, 0, 0, 0],
+    [5, -5, -10, 0, 0, -10, -5, 5],
+    [5, 10, 10, -20, -20, 10, 10, 5],
+    [0, 0, 0, 0, 0, 0, 0, 0]
+  ],
+  n: [
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+    [-40, -20, 0, 0, 0, 0, -20, -40],
+    [-30, 0, 10, 15, 15, 10, 0, -30],
+    [-30, 5, 15, 20, 20, 15, 5, -30],
+    [-30, 0, 15, 20, 20, 15, 0, -30],
+    [-30, 5, 10, 15, 15, 10, 5, -30],
+    [-40, -20, 0, 5, 5, 0, -20, -40],
+    [-50, -40, -30, -30, -30, -30, -40, -50]
+  ],
+  b: [
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 10, 10, 5, 0, -10],
+    [-10, 5, 5, 10, 10, 5, 5, -10],
+    [-10, 0, 10, 10, 10, 10, 0, -10],
+    [-10, 10, 10, 10, 10, 10, 10, -10],
+    [-10, 5, 0, 0, 0, 0, 5, -10],
+    [-20, -10, -10, -10, -10, -10, -10, -20]
+  ],
+  r: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [5, 10, 10, 10, 10, 10, 10, 5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [0, 0, 0, 5, 5, 0, 0, 0]
+  ],
+  q: [
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 5, 5, 5, 0, -10],
+    [-5, 0, 5, 5, 5, 5, 0, -5],
+    [0, 0, 5, 5, 5, 5, 0, -5],
+    [-10, 5, 5, 5, 5, 5, 0, -10],
+    [-10, 0, 5, 0, 0, 0, 0, -10],
+    [-20, -10, -10, -5, -5, -10, -10, -20]
+  ],
+  k: [
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-20, -30, -30, -40, -40, -30, -30, -20],
+    [-10, -20, -20, -20, -20, -20, -20, -10],
+    [20, 20, 0, 0, 0, 0, 20, 20],
+    [20, 30, 10, 0, 0, 10, 30, 20]
+  ]
+};
+
+
+// 0x88 board: square = row * 16 + file with row 0 being rank 8, so PST rows line up directly.
+const WHITE = 0;
+const BLACK = 8;
+const PAWN = 1;
+const KNIGHT = 2;
+const BISHOP = 3;
+const ROOK = 4;
+const QUEEN = 5;
+const KING = 6;
+
+const TYPE_SYMBOLS: PieceSymbol[] = ["p", "p", "n", "b", "r", "q", "k"];
+const SYMBOL_TYPES: Record<string, number> = { p: PAWN, n: KNIGHT, b: BISHOP, r: ROOK, q: QUEEN, k: KING };
+
+const KNIGHT_STEPS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_STEPS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const BISHOP_STEPS = [-17, -15, 15, 17];
+const ROOK_STEPS = [-16, -1, 1, 16];
+
+const FLAG_EN_PASSANT = 1;
+const FLAG_CASTLE = 2;
+const FLAG_DOUBLE_PUSH = 4;
+
+// Castling rights bits: K = 1, Q = 2, k = 4, q = 8. Moving from/to these squares clears them.
+const CASTLE_MASK = new Uint8Array(128).fill(15);
+CASTLE_MASK[0x74] = 12;
+CASTLE_MASK[0x77] = 14;
+CASTLE_MASK[0x70] = 13;
+CASTLE_MASK[0x04] = 3;
+CASTLE_MASK[0x07] = 11;
+CASTLE_MASK[0x00] = 7;
+
+interface Position {
+  board: Int8Array;
+  side: number;
+  castling: number;
+  ep: number;
+  halfmove: number;
+  kings: [number, number];
+}
+
+interface SearchMove {
+  from: number;
+  to: number;
+  piece: number;
+  captured: number;
+  promotion: number;
+  flags: number;
+}
+
+interface Undo {
+  castling: number;
+  ep: number;
+  halfmove: number;
+}
+
+class BudgetExceeded extends Error {}
+
+const onBoard = (sq: number) => (sq & 0x88) === 0;
+const typeOf = (piece: number) => piece & 7;
+const colorOf = (piece: number) => piece & 8;
+
+function squareFromName(name: string) {
+  return (8 - parseInt(name[1], 10)) * 16 + (name.charCodeAt(0) - 97);
+}
+
+function squareName(sq: number) {
+  return `${String.fromCharCode(97 + (sq & 7))}${8 - (sq >> 4)}`;
+}
+
+function toUci(move: SearchMove) {
+  return `${squareName(move.from)}${squareName(move.to)}${move.promotion ? TYPE_SYMBOLS[move.promotion] : ""}`;
+}
+
+function parseFen(fen: string): Position {
+  const [placement, turn = "w", castling = "-", ep = "-", halfmove = "0"] = fen.trim().split(/\s+/);
+  const board = new Int8Array(128);
+  const kings: [number, number] = [-1, -1];
+  placement.split("/").forEach((row, rowIdx) => {
+    let file = 0;
+    for (const ch of row) {
+      if (/\d/.test(ch)) {
+        file += parseInt(ch, 10);
+        continue;
+      }
+      const color = ch === ch.toUpperCase() ? WHITE : BLACK;
+      const type = SYMBOL_TYPES[ch.toLowerCase()];
+      const sq = rowIdx * 16 + file;
+      board[sq] = type | color;
+      if (type === KING) kings[color ? 1 : 0] = sq;
+      file += 1;
+    }
+  });
+  let rights = 0;
+  if (castling.includes("K")) rights |= 1;
+  if (castling.includes("Q")) rights |= 2;
+  if (castling.includes("k")) rights |= 4;
+  if (castling.includes("q")) rights |= 8;
+  return {
+    board,
+    side: turn === "b" ? BLACK : WHITE,
+    castling: rights,
+    ep: ep === "-" ? -1 : squareFromName(ep),
+    halfmove: parseInt(halfmove, 10) || 0,
+    kings
+  };
+}
+
+function isAttacked(pos: Position, sq: number, bySide: number) {
+  const { board } = pos;
+  const pawnSources = bySide === WHITE ? [sq + 15, sq + 17] : [sq - 15, sq - 17];
+  for (const from of pawnSources) {
+    if (onBoard(from) && board[from] === (PAWN | bySide)) return true;
+  }
+  for (const step of KNIGHT_STEPS) {
+    const from = sq + step;
+    if (onBoard(from) && board[from] === (KNIGHT | bySide)) return true;
+  }
+  for (const step of KING_STEPS) {
+    const from = sq + step;
+    if (onBoard(from) && board[from] === (KING | bySide)) return true;
+  }
+  const slides = (steps: number[], typeA: number) => {
+    for (const step of steps) {
+      for (let from = sq + step; onBoard(from); from += step) {
+        const piece = board[from];
+        if (!piece) continue;
+        if (colorOf(piece) === bySide && (typeOf(piece) === typeA || typeOf(piece) === QUEEN)) return true;
+        break;
+      }
+    }
+    return false;
+  };
+  return slides(BISHOP_STEPS, BISHOP) || slides(ROOK_STEPS, ROOK);
+}
+
+function inCheck(pos: Position) {
+  return isAttacked(pos, pos.kings[pos.side ? 1 : 0], pos.side ^ 8);
+}
+
+function makeMove(pos: Position, move: SearchMove): Undo {
+  const undo = { castling: pos.castling, ep: pos.ep, halfmove: pos.halfmove };
+  const { board } = pos;
+  board[move.from] = 0;
+  board[move.to] = move.promotion ? move.promotion | pos.side : move.piece;
+  if (move.flags & FLAG_EN_PASSANT) board[move.to + (pos.side === WHITE ? 16 : -16)] = 0;
+  if (move.flags & FLAG_CASTLE) {
+    const kingside = move.to > move.from;
+    board[kingside ? move.from + 1 : move.from - 1] = board[kingside ? move.from + 3 : move.from - 4];
+    board[kingside ? move.from + 3 : move.from - 4] = 0;
+  }
+  if (typeOf(move.piece) === KING) pos.kings[pos.side ? 1 : 0] = move.to;
+  pos.castling &= CASTLE_MASK[move.from] & CASTLE_MASK[move.to];
+  pos.ep = move.flags & FLAG_DOUBLE_PUSH ? (move.from + move.to) / 2 : -1;
+  pos.halfmove = typeOf(move.piece) === PAWN || move.captured ? 0 : pos.halfmove + 1;
+  pos.side ^= 8;
+  return undo;
+}
+
+function unmakeMove(pos: Position, move: SearchMove, undo: Undo) {
+  pos.side ^= 8;
+  const { board } = pos;
+  board[move.from] = move.piece;
+  board[move.to] = 0;
+  if (move.flags & FLAG_EN_PASSANT) {
+    board[move.to + (pos.side === WHITE ? 16 : -16)] = move.captured;
+  } else if (move.captured) {
+    board[move.to] = move.captured;
+  }
+  if (move.flags & FLAG_CASTLE) {
+    const kingside = move.to > move.from;
+    board[kingside ? move.from + 3 : move.from - 4] = board[kingside ? move.from + 1 : move.from - 1];
+    board[kingside ? move.from + 1 : move.from - 1] = 0;
+  }
+  if (typeOf(move.piece) === KING) pos.kings[pos.side ? 1 : 0] = move.from;
+  pos.castling = undo.castling;
+  pos.ep = undo.ep;
+  pos.halfmove = undo.halfmove;
+}
+
+function generateMoves(pos: Position, capturesOnly = false): SearchMove[] {
+  const { board, side } = pos;
+  const enemy = side ^ 8;
+  const pseudo: SearchMove[] = [];
+  const add = (from: number, to: number, flags = 0, promotion = 0) =>
+    pseudo.push({ from, to, piece: board[from], captured: flags & FLAG_EN_PASSANT ? PAWN | enemy : board[to], promotion, flags });
+  const addPawn = (from: number, to: number, flags = 0) => {
+    const row = to >> 4;
+    if (row === 0 || row === 7) {
+      for (const promo of [QUEEN, ROOK, BISHOP, KNIGHT]) add(from, to, flags, promo);
+    } else {
+      add(from, to, flags);
+    }
+  };
+
+  for (let sq = 0; sq < 128; sq++) {
+    if (!onBoard(sq)) {
+      sq += 7;
+      continue;
+    }
+    const piece = board[sq];
+    if (!piece || colorOf(piece) !== side) continue;
+    const type = typeOf(piece);
+
+    if (type === PAWN) {
+      const dir = side === WHITE ? -16 : 16;
+      const startRow = side === WHITE ? 6 : 1;
+      const one = sq + dir;
+      if (onBoard(one) && !board[one]) {
+        if (!capturesOnly || (one >> 4) === 0 || (one >> 4) === 7) addPawn(sq, one);
+        const two = one + dir;
+        if (!capturesOnly && sq >> 4 === startRow && !board[two]) add(sq, two, FLAG_DOUBLE_PUSH);
+      }
+      for (const target of [one - 1, one + 1]) {
+        if (!onBoard(target)) continue;
+        if (board[target] && colorOf(board[target]) === enemy) addPawn(sq, target);
+        else if (target === pos.ep) add(sq, target, FLAG_EN_PASSANT);
+      }
+      continue;
+    }
+
+    if (type === KNIGHT || type === KING) {
+      for (const step of type === KNIGHT ? KNIGHT_STEPS : KING_STEPS) {
+        const to = sq + step;
+        if (!onBoard(to)) continue;
+        if (!board[to] ? !capturesOnly : colorOf(board[to]) === enemy) add(sq, to);
+      }
+    } else {
+      const steps = type === BISHOP ? BISHOP_STEPS : type === ROOK ? ROOK_STEPS : KING_STEPS;
+      for (const step of steps) {
+        for (let to = sq + step; onBoard(to); to += step) {
+          if (!board[to]) {
+            if (!capturesOnly) add(sq, to);
+            continue;
+          }
+          if (colorOf(board[to]) === enemy) add(sq, to);
+          break;
+        }
+      }
+    }
+  }
+
+  // Standard castling only: king on its home square with the rook in the corner.
+  if (!capturesOnly) {
+    const home = side === WHITE ? 0x74 : 0x04;
+    const [kingBit, queenBit] = side === WHITE ? [1, 2] : [4, 8];
+    if (board[home] === (KING | side) && !isAttacked(pos, home, enemy)) {
+      if (
+        pos.castling & kingBit &&
+        board[home + 3] === (ROOK | side) &&
+        !board[home + 1] &&
+        !board[home + 2] &&
+        !isAttacked(pos, home + 1, enemy) &&
+        !isAttacked(pos, home + 2, enemy)
+      ) {
+        add(home, home + 2, FLAG_CASTLE);
+      }
+      if (
+        pos.castling & queenBit &&
+        board[home - 4] === (ROOK | side) &&
+        !board[home - 1] &&
+        !board[home - 2] &&
+        !board[home - 3] &&
+        !isAttacked(pos, home - 1, enemy) &&
+        !isAttacked(pos, home - 2, enemy)
+      ) {
+        add(home, home - 2, FLAG_CASTLE);
+      }
+    }
+  }
+
+  return pseudo.filter((move) => {
+    const undo = makeMove(pos, move);
+    const legal = !isAttacked(pos, pos.kings[side ? 1 : 0], enemy);
+    unmakeMove(pos, move, undo);
+    return legal;
+  });
+}
+
+function evaluateBoard(pos: Position) {
+  let score = 0;
+  for (let sq = 0; sq < 128; sq++) {
+    if (!onBoard(sq)) {
+      sq += 7;
+      continue;
+    }
+    const piece = pos.board[sq];
+    if (!piece) continue;
+    const symbol = TYPE_SYMBOLS[typeOf(piece)];
+    const row = sq >> 4;
+    const file = sq & 7;
+    const isWhite = colorOf(piece) === WHITE;
+    const value = PIECE_VALUES[symbol] + PST[symbol][isWhite ? row : 7 - row][file];
+    score += isWhite ? value : -value;
+  }
+  return score;
+}
+
+/** Static evaluation in centipawns, positive when White is better. */
+export function evaluateFen(fen: string) {
+  return evaluateBoard(parseFen(fen));
+}
+
+function orderMoves(moves: SearchMove[], preferred?: string) {
+  const weight = (move: SearchMove) => {
+    if (preferred && toUci(move) === preferred) return 100_000;
+    let value = 0;
+    if (move.captured) value += PIECE_VALUES[TYPE_SYMBOLS[typeOf(move.captured)]] * 10 - PIECE_VALUES[TYPE_SYMBOLS[typeOf(move.piece)]];
+    if (move.promotion) value += PIECE_VALUES[TYPE_SYMBOLS[move.promotion]];
+    return value;
+  };
+  return moves.sort((a, b) => weight(b) - weight(a));
+}
+
+/**
+ * Iterative-deepening negamax with alpha-beta pruning and a capture-only quiescence tail.
+ * Runs on its own 0x88 board so it stays fast enough to search a few plies per move; the node
+ * budget and time limit cap the work on top of the requested depth. Either one cuts the current
+ * iteration short and falls back to the best move of the last completed one.
+ */
+export function searchBestMove(
+  fen: string,
+  { depth, nodeBudget = DEFAULT_NODE_BUDGET, timeLimitMs = DEFAULT_TIME_LIMIT_MS }: SearchOptions
+): SearchResult {
+  const pos = parseFen(fen);
+  const deadline = Date.now() + timeLimitMs;
+  let nodes = 0;
+
+  const visit = () => {
+    nodes += 1;
+    if (nodes > nodeBudget) throw new BudgetExceeded();
+    if (nodes % CLOCK_CHECK_INTERVAL === 0 && Date.now() > deadline) throw new BudgetExceeded();
+  };
+
+  const sideEval = () => (pos.side === WHITE ? 1 : -1) * evaluateBoard(pos);
+
+  const quiescence = (alpha: number, beta: number, qply: number): number => {
+    visit();
+    const standPat = sideEval();
+    if (standPat >= beta || qply >= QUIESCENCE_PLIES) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    for (const move of orderMoves(generateMoves(pos, true))) {
+      const undo = makeMove(pos, move);
+      const score = -quiescence(-beta, -alpha, qply + 1);
+      unmakeMove(pos, move, undo);
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  };
+
+  const negamax = (remaining: number, alpha: number, beta: number, ply: number): number => {
+    visit();
+    const moves = generateMoves(pos);
+    if (!moves.length) return inCheck(pos) ? -MATE_SCORE + ply : 0;
+    if (pos.halfmove >= 100) return 0;
+    if (remaining <= 0) return quiescence(alpha, beta, 0);
+
+    let best = -Infinity;
+    for (const move of orderMoves(moves)) {
+      const undo = makeMove(pos, move);
+      const score = -negamax(remaining - 1, -beta, -alpha, ply + 1);
+      unmakeMove(pos, move, undo);
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  const rootMoves = generateMoves(pos);
+  if (!rootMoves.length) return { move: null, score: inCheck(pos) ? -MATE_SCORE : 0, depth: 0, nodes };
+
+  let bestMove = toUci(orderMoves(rootMoves)[0]);
+  let bestScore = -Infinity;
+  let completedDepth = 0;
+
+  for (let iteration = 1; iteration <= Math.max(1, depth); iteration++) {
+    try {
+      let alpha = -Infinity;
+      let iterationBest = bestMove;
+      for (const move of orderMoves(generateMoves(pos), bestMove)) {
+        const undo = makeMove(pos, move);
+        const score = -negamax(iteration - 1, -Infinity, -alpha, 1);
+        unmakeMove(pos, move, undo);
+        if (score > alpha) {
+          alpha = score;
+          iterationBest = toUci(move);
+        }
+      }
+      bestMove = iterationBest;
+      bestScore = alpha;
+      completedDepth = iteration;
+      if (Math.abs(alpha) >= MATE_SCORE - 100) break;
+    } catch (err) {
+      if (!(err instanceof BudgetExceeded)) throw err;
+      break;
+    }
+  }
+
+  return { move: bestMove, score: Number.isFinite(bestScore) ? bestScore : 0, depth: completedDepth, nodes };
+}
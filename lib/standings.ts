@@ -0,0 +1,120 @@
+import { addUsage, EMPTY_USAGE, estimateGameCost } from "./costs";
+import { modelOptions } from "./models";
+import { compareRatings, createRatings } from "./ratings";
+import { isNoContest } from "./results";
+import { MatchMode, TournamentMatch, TournamentStanding } from "./types";
+
+/**
+ * Tournament standings for `models` from finished `matches`, with each model's rating as `ratings`
+ * has it after those games. Best first: by rating, then points, then wins. Shared by the tournament
+ * route and the tournament page, which plays its games through /api/match.
+ */
+export function buildStandings(
+  models: string[],
+  matches: TournamentMatch[],
+  ratings: ReturnType<typeof createRatings>,
+  mode: MatchMode
+): TournamentStanding[] {
+  const estimatedGameCost = (model: string) => estimateGameCost(modelOptions.find((m) => m.value === model), mode);
+  const table: Record<string, TournamentStanding> = {};
+  for (const m of models) {
+    table[m] = {
+      model: m,
+      ...ratings.get(m),
+      games: 0,
+      points: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      checkmates: 0,
+      illegalForfeits: 0,
+      timeouts: 0,
+      resignations: 0,
+      assistedMoves: 0,
+      unaidedMoves: 0,
+      toolCalls: 0,
+      drawOffers: 0,
+      noContests: 0,
+      usage: EMPTY_USAGE,
+      costUsd: 0,
+      estimatedCostUsd: 0
+    };
+  }
+
+  for (const match of matches) {
+    const { white, black, result } = match;
+    table[white].estimatedCostUsd += estimatedGameCost(white);
+    table[black].estimatedCostUsd += estimatedGameCost(black);
+    // What a no-contest spent is real, but it has no result to count.
+    if (result.usage && result.costUsd) {
+      table[white].usage = addUsage(table[white].usage, result.usage.white);
+      table[black].usage = addUsage(table[black].usage, result.usage.black);
+      table[white].costUsd += result.costUsd.white;
+      table[black].costUsd += result.costUsd.black;
+    }
+    if (isNoContest(result)) {
+      table[white].noContests += 1;
+      table[black].noContests += 1;
+      continue;
+    }
+    table[white].games += 1;
+    table[black].games += 1;
+
+    if (result.winner === "draw") {
+      table[white].draws += 1;
+      table[black].draws += 1;
+      table[white].points += 0.5;
+      table[black].points += 0.5;
+    } else if (result.winner === "white") {
+      table[white].wins += 1;
+      table[black].losses += 1;
+      table[white].points += 1;
+    } else {
+      table[black].wins += 1;
+      table[white].losses += 1;
+      table[black].points += 1;
+    }
+
+    if (result.reason === "checkmate") {
+      if (result.winner === "white") table[white].checkmates += 1;
+      if (result.winner === "black") table[black].checkmates += 1;
+    }
+    if (result.reason === "illegal") {
+      if (result.winner === "white") table[black].illegalForfeits += 1;
+      if (result.winner === "black") table[white].illegalForfeits += 1;
+    }
+    if (result.reason === "timeout") {
+      if (result.winner === "white") table[black].timeouts += 1;
+      if (result.winner === "black") table[white].timeouts += 1;
+    }
+    if (result.reason === "resignation") {
+      if (result.winner === "white") table[black].resignations += 1;
+      if (result.winner === "black") table[white].resignations += 1;
+    }
+
+    if (result.assistance) {
+      table[white].assistedMoves += result.assistance.assistedMoves.white;
+      table[black].assistedMoves += result.assistance.assistedMoves.black;
+      table[white].unaidedMoves += result.assistance.unaidedMoves.white;
+      table[black].unaidedMoves += result.assistance.unaidedMoves.black;
+    }
+
+    if (result.toolCalls) {
+      table[white].toolCalls += result.toolCalls.white;
+      table[black].toolCalls += result.toolCalls.black;
+    }
+
+    if (result.drawOffers) {
+      table[white].drawOffers += result.drawOffers.white;
+      table[black].drawOffers += result.drawOffers.black;
+    }
+  }
+
+  return Object.values(table).sort((a, b) => {
+    const byRating = compareRatings(a, b);
+    if (byRating) return byRating;
+    if (b.points !== a.points) return b.points - a.points;
+    if (b.wins !== a.wins) return b.wins - a.wins;
+    return a.model.localeCompare(b.model);
+  });
+}
@@ -0,0 +1,10 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// Imported ahead of every test file by `npm test`: no arena logging in the report, and the game
+// store writes to a scratch directory that is removed when the file's process exits.
+process.env.ARENA_LOG = "silent";
+const dataDir = mkdtempSync(path.join(tmpdir(), "arena-test-"));
+process.env.ARENA_DATA_DIR = dataDir;
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  chargedMoveMs,
+  formatTimeControl,
+  parseTimeControl,
+  resolveClockText,
+  resolveTimeControl,
+  timeControlSpeed,
+  validateTimeControl
+} from "./time-control";
+
+test("parses base+increment with an optional delay", () => {
+  assert.deepEqual(parseTimeControl("3+2"), { baseSeconds: 180, incrementSeconds: 2 });
+  assert.deepEqual(parseTimeControl(" 30 + 0 "), { baseSeconds: 1800 });
+  assert.deepEqual(parseTimeControl("5+0 d3"), { baseSeconds: 300, delaySeconds: 3 });
+  assert.deepEqual(parseTimeControl("0.5+1"), { baseSeconds: 30, incrementSeconds: 1 });
+  assert.equal(parseTimeControl("3 minutes"), null);
+  assert.equal(parseTimeControl("3+"), null);
+});
+
+test("formats back to what was parsed", () => {
+  for (const text of ["1+0", "3+2", "10+5", "5+0 d3", "0.5+1"]) {
+    assert.equal(formatTimeControl(parseTimeControl(text)!), text);
+  }
+});
+
+test("validateTimeControl rejects clocks out of range", () => {
+  assert.doesNotThrow(() => validateTimeControl({ baseSeconds: 60, incrementSeconds: 60, delaySeconds: 60 }));
+  assert.throws(() => validateTimeControl({ baseSeconds: 0 }), /base must be between/);
+  assert.throws(() => validateTimeControl({ baseSeconds: 181 * 60 }), /base must be between/);
+  assert.throws(() => validateTimeControl({ baseSeconds: 60, incrementSeconds: 61 }), /increment must be 0-60/);
+  assert.throws(() => validateTimeControl({ baseSeconds: 60, delaySeconds: -1 }), /delay must be 0-60/);
+});
+
+test("bullet without a time control keeps its clamped legacy clock", () => {
+  assert.deepEqual(resolveTimeControl("bullet"), { baseSeconds: 180 });
+  assert.deepEqual(resolveTimeControl("bullet", 10), { baseSeconds: 180 });
+  assert.deepEqual(resolveTimeControl("bullet", 1), { baseSeconds: 60 });
+  assert.equal(resolveTimeControl("strict"), undefined);
+  assert.deepEqual(resolveTimeControl("strict", undefined, { baseSeconds: 600 }), { baseSeconds: 600 });
+});
+
+test("resolveClockText explains bad input", () => {
+  assert.deepEqual(resolveClockText("strict", ""), { timeControl: undefined, error: null });
+  assert.deepEqual(resolveClockText("strict", "3+2"), { timeControl: { baseSeconds: 180, incrementSeconds: 2 }, error: null });
+  assert.match(resolveClockText("strict", "fast").error ?? "", /should look like 3\+2/);
+  assert.match(resolveClockText("strict", "500+0").error ?? "", /base must be between/);
+});
+
+test("speeds bucket by base plus 40 moves of increment", () => {
+  assert.equal(timeControlSpeed(undefined), "untimed");
+  assert.equal(timeControlSpeed({ baseSeconds: 180 }), "bullet");
+  assert.equal(timeControlSpeed({ baseSeconds: 180, incrementSeconds: 2 }), "blitz");
+  assert.equal(timeControlSpeed({ baseSeconds: 600, incrementSeconds: 5 }), "rapid");
+  assert.equal(timeControlSpeed({ baseSeconds: 1800 }), "classical");
+});
+
+test("delay time is never charged to the clock", () => {
+  assert.equal(chargedMoveMs({ baseSeconds: 60 }, 2500), 2500);
+  assert.equal(chargedMoveMs({ baseSeconds: 60, delaySeconds: 3 }, 2500), 0);
+  assert.equal(chargedMoveMs({ baseSeconds: 60, delaySeconds: 3 }, 4200), 1200);
+});
@@ -0,0 +1,89 @@
+import { MatchMode, TimeControl, TimeControlSpeed } from "./types";
+
+// Offered in the UI; any "base+increment" pair (minutes+seconds) is accepted.
+export const TIME_CONTROL_PRESETS = ["1+0", "3+2", "10+5", "30+0"];
+
+const MAX_BASE_MINUTES = 180;
+const MAX_INCREMENT_SECONDS = 60;
+const MAX_DELAY_SECONDS = 60;
+
+/**
+ * Parses "3+2" (3 minutes, 2 second Fischer increment) with an optional delay suffix,
+ * e.g. "5+0 d3". Returns null for anything else.
+ */
+export function parseTimeControl(text: string): TimeControl | null {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*\+\s*(\d+)(?:\s*d\s*(\d+))?$/i);
+  if (!match) return null;
+  const timeControl: TimeControl = { baseSeconds: Math.round(parseFloat(match[1]) * 60) };
+  if (parseInt(match[2], 10)) timeControl.incrementSeconds = parseInt(match[2], 10);
+  if (match[3] && parseInt(match[3], 10)) timeControl.delaySeconds = parseInt(match[3], 10);
+  return timeControl;
+}
+
+export function formatTimeControl(timeControl: TimeControl) {
+  const base = `${Math.round((timeControl.baseSeconds / 60) * 100) / 100}+${timeControl.incrementSeconds ?? 0}`;
+  return timeControl.delaySeconds ? `${base} d${timeControl.delaySeconds}` : base;
+}
+
+// Throws with a user-facing message when a requested time control is out of range.
+export function validateTimeControl(timeControl: TimeControl) {
+  const { baseSeconds, incrementSeconds = 0, delaySeconds = 0 } = timeControl;
+  if (!Number.isFinite(baseSeconds) || baseSeconds <= 0 || baseSeconds > MAX_BASE_MINUTES * 60) {
+    throw new Error(`Time control base must be between 1 second and ${MAX_BASE_MINUTES} minutes`);
+  }
+  if (!Number.isFinite(incrementSeconds) || incrementSeconds < 0 || incrementSeconds > MAX_INCREMENT_SECONDS) {
+    throw new Error(`Time control increment must be 0-${MAX_INCREMENT_SECONDS} seconds`);
+  }
+  if (!Number.isFinite(delaySeconds) || delaySeconds < 0 || delaySeconds > MAX_DELAY_SECONDS) {
+    throw new Error(`Time control delay must be 0-${MAX_DELAY_SECONDS} seconds`);
+  }
+}
+
+/**
+ * The clock a game runs with: an explicit time control works in every mode, and bullet
+ * without one keeps its legacy `clockMinutes` clock (1-3 minutes, no increment).
+ */
+export function resolveTimeControl(mode: MatchMode, clockMinutes?: number, timeControl?: TimeControl) {
+  if (timeControl) return timeControl;
+  if (mode !== "bullet") return undefined;
+  const requestedMinutes = Number(clockMinutes ?? 3);
+  const safeClockMinutes = Number.isFinite(requestedMinutes) ? requestedMinutes : 3;
+  return { baseSeconds: Math.min(3, Math.max(1, safeClockMinutes)) * 60 };
+}
+
+/**
+ * Reads the clock typed on a page (empty for untimed): the resolved time control, or a
+ * user-facing error when the text does not parse or is out of range.
+ */
+export function resolveClockText(mode: MatchMode, text: string): { timeControl?: TimeControl; error: string | null } {
+  const trimmed = text.trim();
+  const parsed = trimmed ? parseTimeControl(trimmed) : null;
+  if (trimmed && !parsed) return { error: `Time control "${trimmed}" should look like 3+2 or 5+0 d3` };
+  try {
+    if (parsed) validateTimeControl(parsed);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Invalid time control" };
+  }
+  return { timeControl: resolveTimeControl(mode, undefined, parsed ?? undefined), error: null };
+}
+
+export const TIME_CONTROL_SPEEDS: TimeControlSpeed[] = ["untimed", "bullet", "blitz", "rapid", "classical"];
+
+/**
+ * Buckets a clock by its estimated game length, base + 40 moves of increment (delay counted like
+ * increment): up to 3 minutes is bullet, so bullet mode's default 3+0 stays bullet; under 8 is
+ * blitz, under 25 rapid, and anything longer classical.
+ */
+export function timeControlSpeed(timeControl?: TimeControl): TimeControlSpeed {
+  if (!timeControl) return "untimed";
+  const { baseSeconds, incrementSeconds = 0, delaySeconds = 0 } = timeControl;
+  const estimatedSeconds = baseSeconds + 40 * (incrementSeconds + delaySeconds);
+  if (estimatedSeconds <= 180) return "bullet";
+  if (estimatedSeconds < 480) return "blitz";
+  return estimatedSeconds < 1500 ? "rapid" : "classical";
+}
+
+// Time a move costs after the delay is applied; delay time never comes off the clock.
+export function chargedMoveMs(timeControl: TimeControl, elapsedMs: number) {
+  return Math.max(0, elapsedMs - (timeControl.delaySeconds ?? 0) * 1000);
+}
@@ -1,5 +1,72 @@
 export type MatchMode = "strict" | "chaos" | "bullet";
 
+export type MatchVariant = "standard" | "chess960";
+
+// glicko2 tracks how sure each rating is; elo is the plain K=24 formula.
+export type RatingSystem = "glicko2" | "elo";
+
+// one-shot rebuilds the whole prompt each ply; conversation keeps a message history per side.
+export type PromptStyle = "one-shot" | "conversation";
+
+// Ways the prompt can show the game; a match combines any of them, but needs at least one board view
+// (fen, ascii or piece-list). san-history swaps the UCI move list for SAN; status-lines adds
+// "opponent's last move" and "you are in check" lines.
+export type BoardRepresentation = "fen" | "ascii" | "piece-list" | "san-history" | "status-lines";
+
+// Help shown after an illegal move: off repeats only the reason; piece adds the legal moves of the
+// piece that was tried; ladder does that after strike 1 and lists every legal move from strike 2.
+export type AssistancePolicy = "off" | "piece" | "ladder";
+
+// text reads the move from the reply text; tool asks for a make_move tool call and reads the reply
+// text as before when a model answers without one.
+export type MoveSubmission = "text" | "tool";
+
+// strict plays the first token of the reply; lenient searches the whole reply for a legal move.
+export type MoveExtraction = "strict" | "lenient";
+
+// Which part of a reply the move was read from, in the order lenient extraction tries them.
+// first-token is strict mode, and lenient's fallback when nothing legal was found.
+export type ExtractionRule = "single-token" | "labeled" | "fenced" | "bold" | "castling" | "uci" | "san" | "first-token";
+
+// Tokens the gateway reported for a reply; cachedInputTokens is the part of inputTokens read from cache.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+}
+
+// Spending caps; either limit alone is enough to stop a game.
+export interface Budget {
+  maxUsd?: number;
+  maxTokens?: number; // input plus output tokens
+}
+
+export interface BudgetStatus {
+  spentUsd: number;
+  spentTokens: number;
+  remainingUsd?: number; // present when the budget caps dollars
+  remainingTokens?: number; // present when the budget caps tokens
+}
+
+// Rules for ending a game early once its result is clear. Evaluations are in centipawns.
+export interface Adjudication {
+  resign?: { thresholdCp: number; plies: number }; // one side stays at least this far ahead for this many plies
+  draw?: { thresholdCp: number; plies: number; afterMove: number }; // within ±threshold for this many plies from this move on
+  endgames?: boolean; // decide pawnless endings with a known result (KQ vs K, KR vs KR, ...)
+}
+
+export interface TimeControl {
+  baseSeconds: number; // starting clock per side
+  incrementSeconds?: number; // Fischer increment added after each completed move
+  delaySeconds?: number; // simple delay: this much of every move is not charged to the clock
+}
+
+// How fast a time control plays, bucketed like the usual online categories.
+export type TimeControlSpeed = "untimed" | "bullet" | "blitz" | "rapid" | "classical";
+
+// Ratings are kept apart per mode and speed, e.g. "strict:blitz"; chaos results never meet strict ones.
+export type RatingPool = `${MatchMode}:${TimeControlSpeed}`;
+
 export interface MatchClocks {
   whiteMs: number;
   blackMs: number;
@@ -9,8 +76,26 @@ export interface MatchRequest {
   whiteModel: string;
   blackModel: string;
   mode: MatchMode;
-  clockMinutes?: number;
+  clockMinutes?: number; // legacy bullet clock, used when bullet has no timeControl
+  timeControl?: TimeControl; // clocks for any mode; untimed when omitted outside bullet
   apiKey?: string;
+  scriptedMoves?: Partial<Record<"white" | "black", string[]>>; // replies for local/scripted players
+  startFen?: string; // begin from this position instead of the standard start
+  startPgn?: string; // or replay this PGN prefix first (mutually exclusive with startFen)
+  variant?: MatchVariant; // defaults to standard; chess960 cannot be combined with startFen/startPgn
+  chess960Seed?: number; // picks the 960 start position; random when omitted
+  explain?: boolean; // ask models for a short rationale with each move (streamed as thought events)
+  promptStyle?: PromptStyle; // defaults to one-shot
+  conversationWindow?: number; // exchanges kept per side in conversation mode
+  boardRepresentations?: BoardRepresentation[]; // defaults to ["fen"]
+  assistance?: AssistancePolicy; // defaults to off
+  submission?: MoveSubmission; // defaults to text
+  analysisTools?: boolean; // let gateway models call list_legal_moves etc. before answering
+  toolCallBudget?: number; // analysis tool calls allowed per move (default 5)
+  moveExtraction?: MoveExtraction; // defaults to strict
+  budget?: Budget; // stop the game (reason "budget") before gateway spending would pass this
+  adjudication?: Adjudication; // end decided games early; off when omitted
+  event?: string; // PGN Event tag; defaults to "AI Chess Arena"
 }
 
 export interface MatchMoveEvent {
@@ -28,6 +113,9 @@ export interface MatchMoveEvent {
   clocks?: MatchClocks;
   note?: string;
   timestamp?: number; // milliseconds since move started
+  extractionRule?: ExtractionRule; // lenient extraction only
+  usage?: TokenUsage; // gateway players only: the reply that produced this move
+  budget?: BudgetStatus; // present when the game has a budget
 }
 
 export interface MatchStatusEvent {
@@ -41,12 +129,50 @@ export interface MatchStatusEvent {
   illegalMove?: IllegalMoveSummary;
 }
 
+export interface MatchThoughtEvent {
+  type: "thought";
+  ply: number; // the ply the reply was for; precedes that ply's move or status event
+  activeColor: "white" | "black";
+  move: string; // move text the rationale came with, legal or not
+  text: string;
+}
+
+export interface MatchToolEvent {
+  type: "tool";
+  ply: number; // the ply being thought about; precedes that ply's move or status event
+  activeColor: "white" | "black";
+  tool: string;
+  input: Record<string, unknown>;
+  output: string;
+}
+
+// A draw offer made with a legal move, and what the opponent did about it on its next turn.
+export interface MatchDrawOfferEvent {
+  type: "draw-offer";
+  ply: number;
+  activeColor: "white" | "black"; // the side acting: the offerer for "offer", the opponent otherwise
+  action: "offer" | "accept" | "decline";
+}
+
 export interface MatchEndEvent {
   type: "end";
   result: MatchResult;
 }
 
-export type MatchStreamEvent = MatchMoveEvent | MatchStatusEvent | MatchEndEvent;
+// The game could not be played to a result (a server-side bug or crash); the stream ends after it.
+export interface MatchErrorEvent {
+  type: "error";
+  message: string;
+}
+
+export type MatchStreamEvent =
+  | MatchMoveEvent
+  | MatchStatusEvent
+  | MatchThoughtEvent
+  | MatchToolEvent
+  | MatchDrawOfferEvent
+  | MatchEndEvent
+  | MatchErrorEvent;
 
 export type MatchReason =
   | "checkmate"
@@ -57,7 +183,24 @@ export type MatchReason =
   | "fifty-move"
   | "insufficient"
   | "threefold"
-  | "max-move";
+  | "max-move"
+  | "agreement" // a draw offer was accepted
+  | "format" // three unreadable replies in a row (tool submission only)
+  | "budget" // the next model call would have passed the budget; no contest
+  | "error" // a model call failed for reasons other than time (gateway, auth, rate limit); no contest
+  | "aborted" // the request was cancelled mid-game; no contest
+  | "resign-adjudication" // the evaluation stayed past the resign threshold
+  | "draw-adjudication" // the evaluation stayed near zero late in the game
+  | "endgame-adjudication"; // a pawnless ending with a known result was reached
+
+// What went wrong with a failed model call. Only "timeout" is charged to the model.
+export type CallFailureKind = "timeout" | "auth" | "rate-limit" | "provider";
+
+export interface CallFailure {
+  by: "white" | "black";
+  kind: CallFailureKind;
+  message: string;
+}
 
 export interface IllegalMoveSummary {
   by: "white" | "black";
@@ -67,8 +210,21 @@ export interface IllegalMoveSummary {
   ply?: number;
 }
 
+// How often each rule produced the move a side played.
+export interface ExtractionSummary {
+  extraction: MoveExtraction;
+  rules: Record<"white" | "black", Partial<Record<ExtractionRule, number>>>;
+}
+
+// Legal moves per side split by whether the prompt for that move listed legal moves after a strike.
+export interface AssistanceSummary {
+  policy: AssistancePolicy;
+  assistedMoves: { white: number; black: number };
+  unaidedMoves: { white: number; black: number };
+}
+
 export interface MatchResult {
-  winner: "white" | "black" | "draw";
+  winner: "white" | "black" | "draw" | "none"; // "none" for no-contests, which are not scored or rated
   reason: MatchReason;
   moves: string[];
   pgn: string;
@@ -77,7 +233,26 @@ export interface MatchResult {
     black: number;
   };
   clocks?: MatchClocks;
+  timeControl?: TimeControl;
   finalFen: string;
+  startFen?: string; // present when the game did not begin from the standard position
+  variant?: MatchVariant;
+  chess960Position?: number; // Scharnagl number (0-959) of the 960 start position
+  promptStyle?: PromptStyle; // present for conversation games
+  explain?: boolean; // present when models were asked for a rationale with each move
+  boardRepresentations?: BoardRepresentation[]; // how the board was shown to both players
+  assistance?: AssistanceSummary; // present when an assistance policy was on
+  submission?: MoveSubmission; // present for tool-submission games
+  formatErrors?: { white: number; black: number }; // unreadable replies, kept apart from illegal moves
+  toolCalls?: { white: number; black: number }; // analysis tool calls, present when tools were offered
+  moveExtraction?: ExtractionSummary; // present for lenient games
+  usage?: { white: TokenUsage; black: TokenUsage }; // every gateway call per side, rejected replies included
+  costUsd?: { white: number; black: number }; // usage priced with each model's rates; 0 without rates
+  budget?: BudgetStatus; // present when the game had a budget
+  thinkMs?: { white: number; black: number }; // time spent waiting on each side's replies, rejected ones included
+  drawOffers?: { white: number; black: number }; // present when either side offered a draw
+  failure?: CallFailure; // present for `error` no-contests
+  adjudication?: Adjudication; // present when adjudication was on
   lastIllegalMoves?: Partial<Record<"white" | "black", IllegalMoveSummary>>;
 }
 
@@ -96,7 +271,25 @@ export interface TournamentRequest {
   models: string[];
   mode: MatchMode;
   clockMinutes?: number;
+  timeControl?: TimeControl;
   apiKey?: string;
+  variant?: MatchVariant;
+  chess960Seed?: number; // base seed; each pairing derives its own start position from it
+  bothColors?: boolean; // replay every 960 pairing with colors reversed from the same position
+  explain?: boolean;
+  promptStyle?: PromptStyle;
+  conversationWindow?: number;
+  boardRepresentations?: BoardRepresentation[];
+  assistance?: AssistancePolicy;
+  submission?: MoveSubmission;
+  analysisTools?: boolean;
+  toolCallBudget?: number;
+  moveExtraction?: MoveExtraction;
+  budget?: Budget; // for the whole tournament; pairings left when it runs out are skipped
+  matchBudget?: Budget; // for each game
+  replayNoContests?: boolean; // play a pairing again when its game ends as a no-contest
+  adjudication?: Adjudication;
+  ratingSystem?: RatingSystem; // for the standings; defaults to glicko2
 }
 
 export interface TournamentMatch {
@@ -108,6 +301,8 @@ export interface TournamentMatch {
 export interface TournamentStanding {
   model: string;
   rating: number;
+  deviation?: number; // Glicko-2 RD; standings sort by rating - 2 * deviation
+  provisional?: boolean;
   games: number;
   points: number;
   wins: number;
@@ -117,12 +312,22 @@ export interface TournamentStanding {
   illegalForfeits: number;
   timeouts: number;
   resignations: number;
+  assistedMoves: number; // legal moves made after being shown legal moves
+  unaidedMoves: number; // legal moves made without help (only counted when assistance is on)
+  toolCalls: number; // analysis tool calls across all games
+  drawOffers: number;
+  noContests: number; // games that ended in error or aborted; they count toward no result or rating
+  usage: TokenUsage; // reported by the gateway across all games
+  costUsd: number; // actual cost of `usage`
+  estimatedCostUsd: number; // what the pre-game estimate predicted for the same games
 }
 
 export interface TournamentResult {
   mode: MatchMode;
   matches: TournamentMatch[];
   standings: TournamentStanding[];
+  skippedPairings?: Array<{ white: string; black: string }>; // not played because the budget ran out
+  budget?: BudgetStatus; // present when the tournament had a budget
 }
 
 export interface MatchHistoryEntry {
@@ -130,6 +335,7 @@ export interface MatchHistoryEntry {
   playedAt: number;
   mode: MatchMode;
   clockMinutes?: number;
+  timeControl?: TimeControl;
   white: { id: string; label: string };
   black: { id: string; label: string };
   result: MatchResult;
@@ -137,3 +343,67 @@ export interface MatchHistoryEntry {
   reasonLabel: string;
   illegalNote?: string;
 }
+
+// A finished game as kept by the server-side store; `source` is the route that played it.
+export interface StoredGame {
+  id: string;
+  playedAt: number;
+  white: string;
+  black: string;
+  mode: MatchMode;
+  source: "match" | "tournament";
+  result: MatchResult;
+  ratings?: GameRatings; // rated games only
+}
+
+export interface PlayerRating {
+  rating: number;
+  deviation?: number; // Glicko-2 only
+  provisional?: boolean;
+}
+
+// Both sides' ratings going into and coming out of one rated game, in its pool.
+export interface GameRatings {
+  system: RatingSystem;
+  pool: RatingPool;
+  white: { before: PlayerRating; after: PlayerRating };
+  black: { before: PlayerRating; after: PlayerRating };
+}
+
+// One rated game in a model's GET /api/ratings history.
+export interface RatingHistoryPoint {
+  gameId: string;
+  playedAt: number;
+  color: "white" | "black";
+  opponent: string;
+  score: number; // 1, 0.5 or 0 for the model
+  before: PlayerRating;
+  after: PlayerRating;
+}
+
+// What GET /api/games lists; the full result is fetched per game.
+export interface StoredGameSummary extends Omit<StoredGame, "result"> {
+  winner: MatchResult["winner"];
+  reason: MatchReason;
+  plies: number;
+  timeControl?: TimeControl;
+  pool: RatingPool;
+  // What the tournament forecast learns think times from.
+  thinkMs?: MatchResult["thinkMs"];
+  promptStyle?: PromptStyle;
+  explain?: boolean;
+  analysisTools?: boolean;
+}
+
+// One row of GET /api/leaderboard: a model's rating after replaying every stored game in order.
+export interface LeaderboardEntry {
+  model: string;
+  rating: number;
+  deviation?: number; // Glicko-2 only
+  provisional?: boolean; // Glicko-2 only: too few games for the rating to mean much
+  games: number; // scored games; no-contests are left out
+  wins: number;
+  draws: number;
+  losses: number;
+  lastPlayed: number; // playedAt of the model's latest scored game
+}
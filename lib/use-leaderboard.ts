@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from "react";
+import { LeaderboardEntry, RatingPool, RatingSystem } from "./types";
+
+export type Leaderboards = Partial<Record<RatingPool, LeaderboardEntry[]>>;
+
+// The server leaderboards, one per pool; `refresh` refetches them and resolves with the result (undefined on failure).
+export function useLeaderboard(system: RatingSystem) {
+  const [leaderboards, setLeaderboards] = useState<Leaderboards>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/leaderboard?system=${system}`, { cache: "no-store" });
+      if (!response.ok) return undefined;
+      const { leaderboards: pools } = (await response.json()) as { leaderboards: Leaderboards };
+      setLeaderboards(pools);
+      return pools;
+    } catch {
+      return undefined;
+    }
+  }, [system]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return [leaderboards, refresh] as const;
+}
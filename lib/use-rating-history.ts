@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+import { RatingHistoryPoint, RatingPool, RatingSystem } from "./types";
+
+export interface RatingHistory {
+  system: RatingSystem; // what the stored snapshots were computed with
+  points: RatingHistoryPoint[];
+}
+
+/**
+ * `model`'s rating history in `pool` (nothing while `model` is null). It refetches whenever
+ * `lastPlayed` moves, and `recompute` redoes every stored snapshot under `system` first.
+ */
+export function useRatingHistory(model: string | null, pool: RatingPool, lastPlayed?: number) {
+  const [history, setHistory] = useState<RatingHistory | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!model) {
+      setHistory(null);
+      return;
+    }
+    try {
+      const params = new URLSearchParams({ model, pool });
+      const response = await fetch(`/api/ratings?${params}`, { cache: "no-store" });
+      if (response.ok) setHistory(await response.json());
+    } catch {
+      // Keep whatever was shown; the next game refetches.
+    }
+  }, [model, pool]);
+
+  const recompute = useCallback(
+    async (system: RatingSystem) => {
+      const response = await fetch("/api/ratings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ system })
+      });
+      if (!response.ok) throw new Error((await response.text()) || "Recompute failed");
+      await refresh();
+    },
+    [refresh]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, lastPlayed]);
+
+  return [history, recompute] as const;
+}